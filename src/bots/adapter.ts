@@ -0,0 +1,84 @@
+/**
+ * Dependency bot adapters
+ *
+ * Each bot (Renovate, Dependabot, ...) opens PRs in its own format and reacts to its own
+ * rebase requests. An adapter encapsulates detection, dependency-info extraction and the
+ * rebase trigger, so one run can handle PRs from several bots.
+ */
+
+import type { GitHubClient } from '../github/client.js';
+import type { PullRequest } from '../github/types.js';
+import type { DependencyInfo } from '../renovate/detector.js';
+import type { RebaseStrategy } from '../renovate/rebase.js';
+
+/** Rebase strategies that ask the bot (update-branch is done by GitHub itself) */
+export type BotRebaseStrategy = Exclude<RebaseStrategy, 'update-branch'>;
+
+export interface BotAdapter {
+  /** Display name, e.g. "Renovate" */
+  name: string;
+  /** Get why the PR counts as opened by this bot (e.g. 'author "renovate[bot]"'), or null if it doesn't */
+  match(pr: PullRequest): string | null;
+  /** Extract dependency info from the PR title and body (best effort) */
+  getDependencyInfo(pr: PullRequest): DependencyInfo;
+  /**
+   * Ask the bot to rebase the PR
+   * Returns false if the bot doesn't support the strategy for this PR
+   */
+  requestRebase(
+    client: GitHubClient,
+    owner: string,
+    repo: string,
+    pr: PullRequest,
+    strategy: BotRebaseStrategy
+  ): Promise<boolean>;
+  /** Check if the bot handled a rebase request without pushing (e.g. unticked the checkbox) */
+  isRebaseRequestHandled(pr: PullRequest, strategy: BotRebaseStrategy): boolean;
+  /** Bot comments answering a rebase request without a new commit */
+  rebaseComments: {
+    /** The bot won't touch the branch */
+    refused: RegExp[];
+    /** The branch is already up to date */
+    notNeeded: RegExp[];
+  };
+}
+
+export type BotName = 'renovate' | 'dependabot';
+
+/** Additional identities of a bot, e.g. a self-hosted Renovate running as another GitHub App */
+export interface BotIdentityConfig {
+  /** Author logins, e.g. acme-deps[bot] */
+  logins?: string[];
+  /** Head branch prefixes, e.g. deps/ */
+  branchPrefixes?: string[];
+  /** PRs carrying one of these labels belong to the bot */
+  labels?: string[];
+  /** Rebase checkbox markers, e.g. <!-- acme-rebase --> (Renovate only) */
+  rebaseCheckboxes?: string[];
+}
+
+export type BotsConfig = Partial<Record<BotName, BotIdentityConfig>>;
+
+/**
+ * Match a PR against configured bot identities
+ * Returns why the PR matches, or null if it doesn't
+ */
+export function matchBotIdentity(pr: PullRequest, identity: BotIdentityConfig): string | null {
+  const login = pr.user?.login ?? '';
+  if (identity.logins?.some((candidate) => candidate.toLowerCase() === login.toLowerCase())) {
+    return `author "${login}" (configured)`;
+  }
+
+  const prefix = identity.branchPrefixes?.find((candidate) => pr.head.ref.startsWith(candidate));
+  if (prefix !== undefined) {
+    return `branch prefix "${prefix}" (configured)`;
+  }
+
+  const labels = pr.labels.map((l) => l.name.toLowerCase());
+  const label = identity.labels?.find((candidate) => labels.includes(candidate.toLowerCase()));
+  if (label !== undefined) {
+    return `label "${label}" (configured)`;
+  }
+
+  return null;
+}
@@ -0,0 +1,156 @@
+/**
+ * Dependabot bot adapter
+ * Dependabot has no rebase checkbox or label - rebases are requested with "@dependabot rebase"
+ *
+ * Title formats:
+ *   Bump lodash from 4.17.20 to 4.17.21 (in /frontend)
+ *   chore(deps-dev): bump eslint from 8.56.0 to 9.0.0
+ *   Update requests requirement from ~=2.30 to ~=2.31
+ *   Bump the dev-dependencies group (across 1 directory) with 3 updates
+ */
+
+import type { PullRequest } from '../github/types.js';
+import { compareVersions, type PackageUpdate } from '../renovate/pr-body.js';
+import { getHighestUpdateType, type DependencyInfo } from '../renovate/detector.js';
+import { matchBotIdentity, type BotAdapter, type BotIdentityConfig } from './adapter.js';
+
+const DEPENDABOT_LOGINS = ['dependabot[bot]', 'dependabot-preview[bot]'];
+
+const DEPENDABOT_BRANCH_PATTERN = /^dependabot\//i;
+
+const BUMP_TITLE_PATTERN = /\bbump\s+(\S+)\s+from\s+(\S+)\s+to\s+(\S+?)(?:\s+in\s+\S+)?$/i;
+
+const REQUIREMENT_TITLE_PATTERN = /\bupdate\s+(\S+)\s+requirement\s+from\s+(.+?)\s+to\s+(.+?)(?:\s+in\s+\S+)?$/i;
+
+/** Conventional commit prefix Dependabot uses for development dependencies */
+const DEV_DEPENDENCY_PREFIX = /^\w+\(deps-dev\)/i;
+
+/** One line per package in the body of group PRs: "Updates `eslint` from 8.56.0 to 9.0.0" */
+const GROUP_UPDATE_LINE = /^Updates `([^`]+)` from (\S+) to (\S+?)\.?\r?$/gm;
+
+/**
+ * Strip the "v" prefix of a version ("v4" -> "4")
+ */
+function normalizeVersion(version: string): string {
+  return version.replace(/^v(?=\d)/i, '');
+}
+
+/**
+ * Parse the per-package lines of a group PR body
+ */
+function parseGroupUpdates(body: string): PackageUpdate[] {
+  return [...body.matchAll(GROUP_UPDATE_LINE)].map((match) => {
+    const fromVersion = normalizeVersion(match[2]);
+    const toVersion = normalizeVersion(match[3]);
+    return {
+      packageName: match[1],
+      depType: null,
+      updateType: compareVersions(fromVersion, toVersion),
+      fromVersion,
+      toVersion,
+      badges: {},
+    };
+  });
+}
+
+/**
+ * Extract dependency info from a Dependabot PR
+ * Group PRs list their packages in the body, single-package PRs are parsed from the title
+ */
+export function extractDependabotInfo(title: string, body?: string | null): DependencyInfo {
+  const packages = body ? parseGroupUpdates(body) : [];
+  if (packages.length > 1) {
+    return {
+      packageName: null,
+      fromVersion: null,
+      toVersion: null,
+      updateType: getHighestUpdateType(packages.map((update) => update.updateType)),
+      depType: null,
+      packages,
+    };
+  }
+
+  const depType = DEV_DEPENDENCY_PREFIX.test(title) ? 'devDependencies' : null;
+  const match = title.match(BUMP_TITLE_PATTERN) ?? title.match(REQUIREMENT_TITLE_PATTERN);
+  if (match) {
+    const fromVersion = normalizeVersion(match[2]);
+    const toVersion = normalizeVersion(match[3]);
+    return {
+      packageName: match[1],
+      fromVersion,
+      toVersion,
+      updateType: compareVersions(fromVersion, toVersion),
+      depType,
+      packages,
+    };
+  }
+
+  return {
+    packageName: null,
+    fromVersion: null,
+    toVersion: null,
+    updateType: 'unknown',
+    depType,
+    packages,
+  };
+}
+
+/**
+ * Get why a PR counts as a Dependabot PR, or null if it doesn't
+ */
+function getDependabotMatch(pr: PullRequest): string | null {
+  const authorLogin = pr.user?.login?.toLowerCase() ?? '';
+  if (DEPENDABOT_LOGINS.includes(authorLogin)) {
+    return `author "${pr.user?.login}"`;
+  }
+  if (DEPENDABOT_BRANCH_PATTERN.test(pr.head.ref)) {
+    return `branch "${pr.head.ref}"`;
+  }
+  return null;
+}
+
+/**
+ * Create the Dependabot adapter, recognizing the configured identities in addition to the built-in ones
+ */
+export function createDependabotAdapter(identity: BotIdentityConfig = {}): BotAdapter {
+  return {
+    name: 'Dependabot',
+
+    match(pr) {
+      return getDependabotMatch(pr) ?? matchBotIdentity(pr, identity);
+    },
+
+    getDependencyInfo(pr) {
+      return extractDependabotInfo(pr.title, pr.body);
+    },
+
+    async requestRebase(client, owner, repo, pr, strategy) {
+      if (strategy !== 'comment') {
+        return false;
+      }
+      await client.issues.createComment({
+        owner,
+        repo,
+        issue_number: pr.number,
+        body: '@dependabot rebase',
+      });
+      return true;
+    },
+
+    isRebaseRequestHandled() {
+      // Dependabot answers every request with a commit or a comment
+      return false;
+    },
+
+    rebaseComments: {
+      refused: [
+        /edited by someone other than Dependabot/i,
+        /Dependabot (?:can't|cannot|won't) rebase/i,
+        /only users with push access can use that command/i,
+      ],
+      notNeeded: [
+        /already up-to-date/i,
+      ],
+    },
+  };
+}
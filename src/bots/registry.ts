@@ -0,0 +1,121 @@
+/**
+ * Bot adapter lookup - the first adapter matching a PR handles it
+ */
+
+import type { PullRequest } from '../github/types.js';
+import type { DependencyInfo } from '../renovate/detector.js';
+import type { BotAdapter, BotName, BotsConfig } from './adapter.js';
+import { createRenovateAdapter } from './renovate.js';
+import { createDependabotAdapter } from './dependabot.js';
+
+export const BOT_NAMES: BotName[] = ['renovate', 'dependabot'];
+
+/** Identity options per bot - Dependabot has no rebase checkbox */
+const IDENTITY_OPTIONS: Record<BotName, string[]> = {
+  renovate: ['logins', 'branchPrefixes', 'labels', 'rebaseCheckboxes'],
+  dependabot: ['logins', 'branchPrefixes', 'labels'],
+};
+
+/**
+ * Create the adapters of all supported bots, in detection order
+ */
+export function createBotAdapters(config: BotsConfig = {}): BotAdapter[] {
+  return [createRenovateAdapter(config.renovate), createDependabotAdapter(config.dependabot)];
+}
+
+/** Adapters recognizing only the built-in bot identities */
+export const DEFAULT_BOT_ADAPTERS = createBotAdapters();
+
+export interface BotClassification {
+  /** Adapter of the bot that opened the PR, null if no bot claims it */
+  adapter: BotAdapter | null;
+  /** Why the PR was or wasn't classified as a bot PR */
+  reason: string;
+}
+
+/**
+ * Classify a PR, explaining the decision
+ */
+export function classifyPR(pr: PullRequest, adapters: BotAdapter[] = DEFAULT_BOT_ADAPTERS): BotClassification {
+  for (const adapter of adapters) {
+    const reason = adapter.match(pr);
+    if (reason !== null) {
+      return { adapter, reason };
+    }
+  }
+
+  const labels = pr.labels.map((l) => l.name).join(', ') || 'none';
+  return {
+    adapter: null,
+    reason: `no bot matches author "${pr.user?.login ?? 'unknown'}", branch "${pr.head.ref}", labels: ${labels}`,
+  };
+}
+
+/**
+ * Find the adapter of the bot that opened a PR
+ */
+export function findBotAdapter(pr: PullRequest, adapters: BotAdapter[] = DEFAULT_BOT_ADAPTERS): BotAdapter | undefined {
+  return classifyPR(pr, adapters).adapter ?? undefined;
+}
+
+/**
+ * Get the adapter for a PR, falling back to Renovate for PRs no bot claims
+ */
+export function getBotAdapter(pr: PullRequest, adapters: BotAdapter[] = DEFAULT_BOT_ADAPTERS): BotAdapter {
+  return findBotAdapter(pr, adapters) ?? adapters[0];
+}
+
+/**
+ * Check if a PR was opened by a supported bot
+ */
+export function isBotPR(pr: PullRequest, adapters: BotAdapter[] = DEFAULT_BOT_ADAPTERS): boolean {
+  return findBotAdapter(pr, adapters) !== undefined;
+}
+
+/**
+ * Filter PRs to only include PRs opened by a supported bot
+ */
+export function filterBotPRs(prs: PullRequest[], adapters: BotAdapter[] = DEFAULT_BOT_ADAPTERS): PullRequest[] {
+  return prs.filter((pr) => isBotPR(pr, adapters));
+}
+
+/**
+ * Extract dependency info from a PR with its bot's adapter
+ */
+export function getDependencyInfo(pr: PullRequest, adapters: BotAdapter[] = DEFAULT_BOT_ADAPTERS): DependencyInfo {
+  return getBotAdapter(pr, adapters).getDependencyInfo(pr);
+}
+
+/**
+ * Validate raw bot identities from a configuration file, returning a list of issues
+ * e.g. { "renovate": { "logins": ["acme-deps[bot]"], "branchPrefixes": ["deps/"] } }
+ */
+export function validateBotsConfig(value: unknown, key: string): string[] {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return [`"${key}" must be an object`];
+  }
+
+  const issues: string[] = [];
+  for (const [name, identity] of Object.entries(value)) {
+    const at = `${key}.${name}`;
+    if (!BOT_NAMES.includes(name as BotName)) {
+      issues.push(`"${key}" has unknown bot "${name}" (allowed: ${BOT_NAMES.join(', ')})`);
+      continue;
+    }
+    if (identity === null || typeof identity !== 'object' || Array.isArray(identity)) {
+      issues.push(`"${at}" must be an object`);
+      continue;
+    }
+
+    const allowed = IDENTITY_OPTIONS[name as BotName];
+    for (const [option, entries] of Object.entries(identity)) {
+      if (!allowed.includes(option)) {
+        issues.push(`"${at}" has unknown option "${option}" (allowed: ${allowed.join(', ')})`);
+      } else if (!Array.isArray(entries) || !entries.every((entry) => typeof entry === 'string' && entry !== '')) {
+        issues.push(`"${at}.${option}" must be an array of non-empty strings`);
+      }
+    }
+  }
+
+  return issues;
+}
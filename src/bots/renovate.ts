@@ -0,0 +1,154 @@
+/**
+ * Renovate bot adapter
+ * Rebases are requested by ticking the rebase checkbox, adding the rebase label or commenting
+ */
+
+import type { GitHubClient } from '../github/client.js';
+import type { PullRequest } from '../github/types.js';
+import { updatePullRequestBody } from '../github/pulls.js';
+import { getRenovateMatch, extractDependencyInfo } from '../renovate/detector.js';
+import { matchBotIdentity, type BotAdapter, type BotIdentityConfig } from './adapter.js';
+
+// Patterns for finding the rebase checkbox in PR body
+const REBASE_CHECKBOX_PATTERNS = [
+  // Standard Renovate checkbox
+  /- \[ \] <!-- rebase-check -->/,
+  // Alternative formats
+  /- \[ \] If you want to rebase\/retry this PR/i,
+  /- \[ \] Rebase this PR/i,
+  /\[ \] <!-- renovate-rebase -->/,
+];
+
+// Patterns for already checked checkbox
+const CHECKED_PATTERNS = [
+  /- \[x\] <!-- rebase-check -->/i,
+  /- \[x\] If you want to rebase\/retry this PR/i,
+  /- \[x\] Rebase this PR/i,
+  /\[x\] <!-- renovate-rebase -->/i,
+];
+
+/** Label Renovate watches for rebase requests (its default rebaseLabel) */
+const REBASE_LABEL = 'rebase';
+
+interface RebaseCheckboxes {
+  unchecked: RegExp[];
+  checked: RegExp[];
+}
+
+/**
+ * Build checkbox patterns for configured markers ("- [ ] <!-- acme-rebase -->")
+ */
+function toRebaseCheckboxes(markers: string[]): RebaseCheckboxes {
+  const escaped = markers.map((marker) => marker.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return {
+    unchecked: [...REBASE_CHECKBOX_PATTERNS, ...escaped.map((marker) => new RegExp(`- \\[ \\] ${marker}`))],
+    checked: [...CHECKED_PATTERNS, ...escaped.map((marker) => new RegExp(`- \\[x\\] ${marker}`, 'i'))],
+  };
+}
+
+/**
+ * Check if the rebase checkbox is already checked
+ */
+function isRebaseAlreadyTriggered(body: string, checkboxes: RebaseCheckboxes): boolean {
+  return checkboxes.checked.some((pattern) => pattern.test(body));
+}
+
+/**
+ * Check if the PR body has a rebase checkbox
+ */
+function hasRebaseCheckbox(body: string, checkboxes: RebaseCheckboxes): boolean {
+  return (
+    checkboxes.unchecked.some((pattern) => pattern.test(body)) ||
+    checkboxes.checked.some((pattern) => pattern.test(body))
+  );
+}
+
+/**
+ * Check the rebase checkbox in the PR body
+ * Returns false if the body has no checkbox
+ */
+async function checkRebaseCheckbox(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  checkboxes: RebaseCheckboxes
+): Promise<boolean> {
+  const body = pr.body ?? '';
+
+  // Already triggered, nothing to do
+  if (isRebaseAlreadyTriggered(body, checkboxes)) {
+    return true;
+  }
+
+  for (const pattern of checkboxes.unchecked) {
+    if (pattern.test(body)) {
+      const newBody = body.replace(pattern, (match) => {
+        return match.replace('[ ]', '[x]');
+      });
+
+      await updatePullRequestBody(client, owner, repo, pr.number, newBody);
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Create the Renovate adapter, recognizing the configured identities in addition to the built-in ones
+ */
+export function createRenovateAdapter(identity: BotIdentityConfig = {}): BotAdapter {
+  const checkboxes = toRebaseCheckboxes(identity.rebaseCheckboxes ?? []);
+
+  return {
+    name: 'Renovate',
+
+    match(pr) {
+      return getRenovateMatch(pr) ?? matchBotIdentity(pr, identity);
+    },
+
+    getDependencyInfo(pr) {
+      return extractDependencyInfo(pr.title, pr.body);
+    },
+
+    async requestRebase(client, owner, repo, pr, strategy) {
+      switch (strategy) {
+        case 'checkbox':
+          return checkRebaseCheckbox(client, owner, repo, pr, checkboxes);
+        case 'label':
+          // Renovate removes the label once it has rebased
+          if (!pr.labels.some((l) => l.name === REBASE_LABEL)) {
+            await client.issues.addLabels({ owner, repo, issue_number: pr.number, labels: [REBASE_LABEL] });
+          }
+          return true;
+        case 'comment':
+          // Some Renovate configs respond to @renovate rebase comment
+          await client.issues.createComment({
+            owner,
+            repo,
+            issue_number: pr.number,
+            body: '@renovate rebase',
+          });
+          return true;
+      }
+    },
+
+    isRebaseRequestHandled(pr, strategy) {
+      const body = pr.body ?? '';
+      return (
+        (strategy === 'checkbox' && hasRebaseCheckbox(body, checkboxes) && !isRebaseAlreadyTriggered(body, checkboxes)) ||
+        (strategy === 'label' && !pr.labels.some((l) => l.name === REBASE_LABEL))
+      );
+    },
+
+    rebaseComments: {
+      refused: [
+        /Edited\/Blocked Notification/i,
+        /Branch automerge failure/i,
+        /will not automatically rebase/i,
+      ],
+      notNeeded: [],
+    },
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * CLI argument parsing
+ */
+
+import { ValidationError, ErrorCode } from '../errors/types.js';
+import { UPDATE_TYPES, type SelectionFilter, type UpdateType } from '../renovate/selection.js';
+import { REBASE_STRATEGIES, type RebaseStrategy } from '../renovate/rebase.js';
+import type { MergeMethod } from '../github/types.js';
+import type { PolicyConfig } from '../utils/policy-config.js';
+import { parseDuration } from '../utils/poller.js';
+import { OUTPUT_FORMATS, type OutputFormat } from './output.js';
+
+export type Command = 'merge' | 'resume' | 'dashboard';
+
+export interface CliArgs {
+  /** Subcommand - `resume [run-id]` continues an interrupted run, `dashboard` manages the Dependency Dashboard */
+  command: Command;
+  /** Run id for `resume` (default: most recent interrupted run) */
+  runId?: string;
+  repoUrl?: string;
+  dryRun: boolean;
+  /** Select all matching PRs without the selection prompt */
+  all: boolean;
+  /** Skip every prompt (headless / CI mode) */
+  yes: boolean;
+  /** Show why each open PR was or wasn't classified as a bot PR */
+  explain: boolean;
+  /** Selection filters applied to the dependency bot PRs */
+  filter: SelectionFilter;
+  /** Run against all repositories of this organization */
+  org?: string;
+  /** Additional repositories (owner/repo or URLs) */
+  repos: string[];
+  /** Named repository set from the config file */
+  repoSet?: string;
+  /** GitHub host, e.g. a GitHub Enterprise Server instance */
+  host?: string;
+  mergeMethod?: MergeMethod;
+  checkTimeoutMs?: number;
+  rebaseTimeoutMs?: number;
+  /** Rebase strategies to try, in order */
+  rebaseStrategies?: RebaseStrategy[];
+  continueOnError?: boolean;
+  autoApprove?: boolean;
+  /** Use GitHub auto-merge instead of merging each PR */
+  autoMerge?: boolean;
+  /** Reorder selected PRs so fewer of them need a rebase */
+  orderByConflicts?: boolean;
+  /** Output format for the run result */
+  output: OutputFormat;
+}
+
+const MERGE_METHODS: MergeMethod[] = ['merge', 'squash', 'rebase'];
+
+/**
+ * Parse a duration flag value, rejecting invalid values
+ */
+function parseDurationFlag(flag: string, value: string): number {
+  const ms = parseDuration(value);
+  if (ms === null || ms <= 0) {
+    throw new ValidationError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Invalid duration for ${flag}: "${value}". Use e.g. 90s, 10m or 1h`
+    );
+  }
+  return ms;
+}
+
+/**
+ * Split a comma-separated flag value into trimmed, non-empty entries
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+}
+
+/**
+ * Parse a list of update types, rejecting unknown values
+ */
+function parseUpdateTypes(value: string): UpdateType[] {
+  const types = splitList(value);
+  for (const type of types) {
+    if (!UPDATE_TYPES.includes(type as UpdateType)) {
+      throw new ValidationError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Invalid update type "${type}". Expected one of: ${UPDATE_TYPES.join(', ')}`
+      );
+    }
+  }
+  return types as UpdateType[];
+}
+
+/**
+ * Parse a list of rebase strategies, rejecting unknown values
+ */
+function parseRebaseStrategies(value: string): RebaseStrategy[] {
+  const strategies = splitList(value);
+  for (const strategy of strategies) {
+    if (!REBASE_STRATEGIES.includes(strategy as RebaseStrategy)) {
+      throw new ValidationError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Invalid rebase strategy "${strategy}". Expected one of: ${REBASE_STRATEGIES.join(', ')}`
+      );
+    }
+  }
+  return strategies as RebaseStrategy[];
+}
+
+/**
+ * Parse CLI arguments
+ * Flags with values accept both `--flag value` and `--flag=value`
+ */
+export function parseArgs(argv: string[] = process.argv.slice(2)): CliArgs {
+  const result: CliArgs = {
+    command: 'merge',
+    dryRun: false,
+    all: false,
+    yes: false,
+    explain: false,
+    repos: [],
+    output: 'text',
+    filter: {
+      updateTypes: [],
+      labels: [],
+      packages: [],
+      excludePackages: [],
+    },
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+
+    // Read the value for flags that take one
+    const takeValue = (): string => {
+      if (inlineValue !== undefined) {
+        return inlineValue;
+      }
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith('-')) {
+        throw new ValidationError(ErrorCode.INVALID_ARGUMENT, `Missing value for ${flag}`);
+      }
+      i++;
+      return next;
+    };
+
+    switch (flag) {
+      case '--dry-run':
+      case '-n':
+        result.dryRun = true;
+        break;
+      case '--all':
+      case '-a':
+        result.all = true;
+        break;
+      case '--yes':
+      case '-y':
+        result.yes = true;
+        break;
+      case '--explain':
+        result.explain = true;
+        break;
+      case '--update-type':
+        result.filter.updateTypes.push(...parseUpdateTypes(takeValue()));
+        break;
+      case '--label':
+        result.filter.labels.push(...splitList(takeValue()));
+        break;
+      case '--package':
+        result.filter.packages.push(...splitList(takeValue()));
+        break;
+      case '--exclude-package':
+        result.filter.excludePackages.push(...splitList(takeValue()));
+        break;
+      case '--merge-method': {
+        const method = takeValue();
+        if (!MERGE_METHODS.includes(method as MergeMethod)) {
+          throw new ValidationError(
+            ErrorCode.INVALID_ARGUMENT,
+            `Invalid merge method "${method}". Expected one of: ${MERGE_METHODS.join(', ')}`
+          );
+        }
+        result.mergeMethod = method as MergeMethod;
+        break;
+      }
+      case '--check-timeout':
+        result.checkTimeoutMs = parseDurationFlag(flag, takeValue());
+        break;
+      case '--rebase-timeout':
+        result.rebaseTimeoutMs = parseDurationFlag(flag, takeValue());
+        break;
+      case '--rebase-strategy':
+        result.rebaseStrategies = parseRebaseStrategies(takeValue());
+        break;
+      case '--stop-on-error':
+        result.continueOnError = false;
+        break;
+      case '--no-approve':
+        result.autoApprove = false;
+        break;
+      case '--auto-merge':
+        result.autoMerge = true;
+        break;
+      case '--order-by-conflicts':
+        result.orderByConflicts = true;
+        break;
+      case '--output':
+      case '-o': {
+        const format = takeValue();
+        if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+          throw new ValidationError(
+            ErrorCode.INVALID_ARGUMENT,
+            `Invalid output format "${format}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`
+          );
+        }
+        result.output = format as OutputFormat;
+        break;
+      }
+      case '--org':
+        result.org = takeValue();
+        break;
+      case '--repos':
+        result.repos.push(...splitList(takeValue()));
+        break;
+      case '--repo-set':
+        result.repoSet = takeValue();
+        break;
+      case '--host':
+        result.host = takeValue();
+        break;
+      default:
+        if (flag.startsWith('-')) {
+          throw new ValidationError(ErrorCode.INVALID_ARGUMENT, `Unknown option: ${flag}`);
+        }
+        if (i === 0 && (arg === 'resume' || arg === 'dashboard')) {
+          result.command = arg;
+        } else if (result.command === 'resume') {
+          result.runId = arg;
+        } else {
+          result.repoUrl = arg;
+        }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build the CLI configuration layer (only flags that were actually given)
+ */
+export function getCliPolicyConfig(args: CliArgs): PolicyConfig {
+  const { filter } = args;
+
+  return {
+    mergeMethod: args.mergeMethod,
+    checkTimeoutMs: args.checkTimeoutMs,
+    rebaseTimeoutMs: args.rebaseTimeoutMs,
+    rebaseStrategies: args.rebaseStrategies,
+    continueOnError: args.continueOnError,
+    autoApprove: args.autoApprove,
+    autoMerge: args.autoMerge,
+    orderByConflicts: args.orderByConflicts,
+    dryRun: args.dryRun || undefined,
+    updateTypes: filter.updateTypes.length > 0 ? filter.updateTypes : undefined,
+    labels: filter.labels.length > 0 ? filter.labels : undefined,
+    packages: filter.packages.length > 0 ? filter.packages : undefined,
+    excludePackages: filter.excludePackages.length > 0 ? filter.excludePackages : undefined,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Machine-readable output (JSON / NDJSON)
+ * Human-readable logs go to stderr in these modes so stdout stays parseable
+ */
+
+import type { BatchResult } from '../operations/batch.js';
+import type { RunEvent } from '../operations/events.js';
+import { isGhRenovateError } from '../errors/types.js';
+
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'ndjson'];
+
+/**
+ * Send console.log output to stderr
+ */
+export function redirectLogsToStderr(): void {
+  console.log = console.error.bind(console);
+}
+
+/**
+ * Write a single JSON document / line to stdout
+ */
+function writeJson(value: unknown, pretty: boolean): void {
+  process.stdout.write(JSON.stringify(value, null, pretty ? 2 : undefined) + '\n');
+}
+
+/**
+ * Stream a run event as one NDJSON line
+ */
+export function writeEvent(event: RunEvent): void {
+  writeJson(event, false);
+}
+
+/**
+ * Write the final result of a run
+ */
+export function writeResult(batch: BatchResult, format: OutputFormat): void {
+  const { combined } = batch;
+
+  writeJson(
+    {
+      type: 'result',
+      dryRun: combined.dryRun,
+      processed: combined.processed,
+      merged: combined.merged,
+      skipped: combined.skipped,
+      failed: combined.failed,
+      results: batch.repos.flatMap(({ owner, repo, result }) =>
+        result.results.map((r) => ({ ...r, repository: `${owner}/${repo}` }))
+      ),
+      repositories: batch.repos.map(({ owner, repo, result }) => ({
+        repository: `${owner}/${repo}`,
+        processed: result.processed,
+        merged: result.merged,
+        skipped: result.skipped,
+        failed: result.failed,
+      })),
+    },
+    format === 'json'
+  );
+}
+
+/**
+ * Write a fatal error
+ */
+export function writeError(error: unknown, format: OutputFormat): void {
+  writeJson(
+    {
+      type: 'error',
+      errorCode: isGhRenovateError(error) ? error.code : undefined,
+      message: isGhRenovateError(error)
+        ? error.userMessage
+        : error instanceof Error
+          ? error.message
+          : 'An unexpected error occurred.',
+    },
+    format === 'json'
+  );
+}
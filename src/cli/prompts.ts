@@ -2,11 +2,17 @@
  * CLI prompts for user interaction
  */
 
-import { checkbox, confirm, input, password, select } from '@inquirer/prompts';
+import { checkbox, confirm, input, password, select, Separator } from '@inquirer/prompts';
+import chalk from 'chalk';
 import type { PullRequest } from '../github/types.js';
-import type { ChecksStatus } from '../github/types.js';
-import { formatPRChoice, formatChecksStatus } from './ui.js';
+import type { ChecksStatus, ReviewDecision } from '../github/types.js';
+import type { CheckPolicy } from '../github/checks.js';
+import { formatPRChoice, formatChecksStatus, formatReviewDecision, formatGroupPackages } from './ui.js';
 import { getRecentRepos } from '../utils/config.js';
+import type { PolicyDecision } from '../policy/engine.js';
+import { describeDashboardAction, type DashboardEntry } from '../renovate/dashboard.js';
+import type { ConflictGraph, OrderSuggestion } from '../operations/ordering.js';
+import type { DependencyInfo } from '../renovate/detector.js';
 
 /**
  * Prompt for GitHub token
@@ -59,6 +65,15 @@ export async function promptForRepoUrl(): Promise<string> {
 export interface PRWithStatus {
   pr: PullRequest;
   checksStatus?: ChecksStatus;
+  /** The repository's check policy, which the displayed checks state is based on */
+  checkPolicy?: CheckPolicy;
+  reviewDecision?: ReviewDecision;
+  /** owner/repo, set for multi-repository runs (choices are grouped by it) */
+  repository?: string;
+  /** Merge policy decision - auto-selected PRs are pre-checked, forbidden ones locked */
+  decision?: PolicyDecision;
+  /** Dependency info extracted by the PR's bot adapter */
+  dependency?: DependencyInfo;
 }
 
 /**
@@ -67,17 +82,36 @@ export interface PRWithStatus {
 export async function promptForPRSelection(
   prs: PRWithStatus[]
 ): Promise<PullRequest[]> {
-  const choices = prs.map(({ pr, checksStatus }) => {
+  const choices: Array<
+    | Separator
+    | { name: string; value: PullRequest; checked: boolean; disabled: boolean | string; description?: string }
+  > = [];
+  let currentRepository: string | undefined;
+
+  for (const { pr, checksStatus, checkPolicy, reviewDecision, repository, decision, dependency } of prs) {
+    if (repository && repository !== currentRepository) {
+      choices.push(new Separator(`── ${repository} ──`));
+      currentRepository = repository;
+    }
+
     const statusStr = checksStatus
-      ? formatChecksStatus(checksStatus.state, checksStatus.completed, checksStatus.total)
+      ? formatChecksStatus(checksStatus, checkPolicy)
       : undefined;
 
-    return {
-      name: formatPRChoice(pr, statusStr),
+    choices.push({
+      name: formatPRChoice(
+        pr,
+        statusStr,
+        reviewDecision ? formatReviewDecision(reviewDecision) : undefined,
+        dependency
+      ),
       value: pr,
-      checked: false,
-    };
-  });
+      // Group PRs list their packages while highlighted
+      description: formatGroupPackages(pr, dependency) || undefined,
+      checked: decision?.action === 'auto-select',
+      disabled: decision?.action === 'forbid' ? `(${decision.reason})` : false,
+    });
+  }
 
   const selected = await checkbox({
     message: 'Select PRs to merge (selection order = merge order):',
@@ -92,12 +126,20 @@ export async function promptForPRSelection(
  * Prompt for confirmation before merging
  */
 export async function promptForMergeConfirmation(
-  prs: PullRequest[]
+  prs: PullRequest[],
+  repositories?: Map<PullRequest, string>,
+  rebases?: Set<PullRequest>
 ): Promise<boolean> {
   console.log('\nSelected PRs (will be merged in this order):');
   prs.forEach((pr, i) => {
-    console.log(`  ${i + 1}. #${pr.number} - ${pr.title}`);
+    const repository = repositories?.get(pr);
+    const ref = repository ? `${repository}#${pr.number}` : `#${pr.number}`;
+    const rebase = rebases?.has(pr) ? chalk.yellow(' (rebase expected)') : '';
+    console.log(`  ${i + 1}. ${ref} - ${pr.title}${rebase}`);
   });
+  if (rebases) {
+    console.log(chalk.dim(`\nPredicted rebases: ${rebases.size} (PRs changing files of an earlier PR)`));
+  }
   console.log('');
 
   return confirm({
@@ -106,6 +148,33 @@ export async function promptForMergeConfirmation(
   });
 }
 
+/** Shared files listed when suggesting an order */
+const MAX_SHARED_FILES_SHOWN = 5;
+
+/**
+ * Offer a conflict-aware merge order that needs fewer rebases
+ */
+export async function promptForSuggestedOrder(
+  suggestion: OrderSuggestion,
+  graph: ConflictGraph,
+  repository?: string
+): Promise<boolean> {
+  console.log(`\nSome selected PRs${repository ? ` in ${repository}` : ''} change the same files:`);
+  const shared = [...graph.sharedFiles].sort((a, b) => b[1].length - a[1].length);
+  for (const [file, prNumbers] of shared.slice(0, MAX_SHARED_FILES_SHOWN)) {
+    console.log(chalk.dim(`  ${file}: ${prNumbers.map((n) => `#${n}`).join(', ')}`));
+  }
+  if (shared.length > MAX_SHARED_FILES_SHOWN) {
+    console.log(chalk.dim(`  ... and ${shared.length - MAX_SHARED_FILES_SHOWN} more`));
+  }
+  console.log(`Suggested order: ${suggestion.order.map((pr) => `#${pr.number}`).join(', ')}`);
+
+  return confirm({
+    message: `Use the suggested order (${suggestion.predictedRebases} → ${suggestion.suggestedRebases} predicted rebases)?`,
+    default: true,
+  });
+}
+
 /**
  * Prompt to continue after a PR fails
  */
@@ -128,3 +197,30 @@ export async function promptToRetry(operation: string): Promise<boolean> {
     default: true,
   });
 }
+
+/**
+ * Prompt for Dependency Dashboard entries to tick, grouped by section
+ */
+export async function promptForDashboardEntries(
+  entries: DashboardEntry[]
+): Promise<DashboardEntry[]> {
+  const choices: Array<Separator | { name: string; value: DashboardEntry }> = [];
+  let currentSection: string | undefined;
+
+  for (const entry of entries) {
+    if (entry.section !== currentSection) {
+      choices.push(new Separator(`── ${entry.section || 'Other'} ──`));
+      currentSection = entry.section;
+    }
+    choices.push({
+      name: `${entry.title} (${describeDashboardAction(entry.action)})`,
+      value: entry,
+    });
+  }
+
+  return checkbox({
+    message: 'Select dashboard entries to tick:',
+    choices,
+    required: false,
+  });
+}
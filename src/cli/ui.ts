@@ -4,7 +4,16 @@
 
 import ora, { type Ora } from 'ora';
 import chalk from 'chalk';
-import type { PullRequest } from '../github/types.js';
+import type { ChecksStatus, PullRequest, PullRequestOverview, ReviewDecision } from '../github/types.js';
+import { getEffectiveChecksState, type CheckPolicy } from '../github/checks.js';
+import type { RepoPRs, RepoRunResult } from '../operations/batch.js';
+import { describeDashboardAction, type DependencyDashboard } from '../renovate/dashboard.js';
+import { isGroupUpdate, type DependencyInfo } from '../renovate/detector.js';
+import type { ConfidenceBadges } from '../renovate/pr-body.js';
+import { createBotAdapters, classifyPR, getBotAdapter, getDependencyInfo } from '../bots/registry.js';
+import type { UpdateType } from '../renovate/selection.js';
+import type { RebaseOutcome, RebaseStrategy } from '../renovate/rebase.js';
+import type { ErrorCode } from '../errors/types.js';
 
 /**
  * UI Controller for managing spinners and status output
@@ -56,6 +65,26 @@ export class UIController {
     this.currentPR = undefined;
   }
 
+  /**
+   * Mark PR as added to the merge queue
+   */
+  queuePR(pr: PullRequest): void {
+    this.spinner.info(
+      chalk.cyan(`#${pr.number}: Added to merge queue`)
+    );
+    this.currentPR = undefined;
+  }
+
+  /**
+   * Mark PR as handed over to GitHub auto-merge
+   */
+  autoMergePR(pr: PullRequest): void {
+    this.spinner.info(
+      chalk.cyan(`#${pr.number}: Auto-merge enabled`)
+    );
+    this.currentPR = undefined;
+  }
+
   /**
    * Mark PR as skipped
    */
@@ -132,13 +161,36 @@ export class UIController {
 /**
  * Format a PR for display in the selection list
  */
-export function formatPRChoice(pr: PullRequest, checksStatus?: string): string {
+export function formatPRChoice(
+  pr: PullRequest,
+  checksStatus?: string,
+  review?: string,
+  dependency: DependencyInfo = getDependencyInfo(pr)
+): string {
   const parts = [`#${pr.number}`, pr.title];
 
+  if (dependency.updateType !== 'unknown') {
+    parts.push(formatUpdateType(dependency.updateType));
+  }
+  if (dependency.depType) {
+    parts.push(chalk.dim(dependency.depType));
+  }
+  if (isGroupUpdate(dependency)) {
+    parts.push(chalk.cyan(`(${dependency.packages.length} packages)`));
+  }
+  const badges = dependency.packages.length === 1 ? formatConfidenceBadges(dependency.packages[0].badges) : '';
+  if (badges) {
+    parts.push(badges);
+  }
+
   if (checksStatus) {
     parts.push(chalk.dim(`[${checksStatus}]`));
   }
 
+  if (review) {
+    parts.push(review);
+  }
+
   if (pr.draft) {
     parts.push(chalk.yellow('(draft)'));
   }
@@ -147,23 +199,98 @@ export function formatPRChoice(pr: PullRequest, checksStatus?: string): string {
 }
 
 /**
- * Format checks status for display
+ * Format the confidence and age Merge Confidence badges as terminal links to their images
+ * The values are only rendered into the images, so without color support (piped output) nothing is shown
  */
-export function formatChecksStatus(
-  state: 'pending' | 'success' | 'failure' | 'error',
-  completed: number,
-  total: number
-): string {
-  switch (state) {
+function formatConfidenceBadges(badges: ConfidenceBadges): string {
+  if (chalk.level === 0) {
+    return '';
+  }
+  return (['confidence', 'age'] as const)
+    .filter((name) => badges[name])
+    .map((name) => chalk.dim(`\u001B]8;;${badges[name]}\u0007${name}\u001B]8;;\u0007`))
+    .join(' ');
+}
+
+/**
+ * List the packages of a group PR, one per line (empty for single-package PRs)
+ */
+export function formatGroupPackages(pr: PullRequest, dependency: DependencyInfo = getDependencyInfo(pr)): string {
+  if (!isGroupUpdate(dependency)) {
+    return '';
+  }
+
+  return dependency.packages
+    .map((update) => {
+      const versions = update.fromVersion ? `${update.fromVersion} → ${update.toVersion}` : update.toVersion ?? '';
+      const badges = formatConfidenceBadges(update.badges);
+      return `  ${update.packageName} ${chalk.dim(versions)} ${formatUpdateType(update.updateType)}${badges ? ` ${badges}` : ''}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Format the number of PRs per bot, e.g. " (2 Renovate, 1 Dependabot)" - empty if only one bot opened them
+ */
+export function formatBotCounts(discovered: RepoPRs[]): string {
+  const counts = new Map<string, number>();
+  for (const entry of discovered) {
+    const bots = createBotAdapters(entry.policy.options.bots);
+    for (const pr of entry.prs) {
+      const { name } = getBotAdapter(pr, bots);
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+  }
+  if (counts.size < 2) {
+    return '';
+  }
+  return ` (${[...counts].map(([name, count]) => `${count} ${name}`).join(', ')})`;
+}
+
+/**
+ * Format an update type for display (major updates stand out)
+ */
+export function formatUpdateType(updateType: UpdateType): string {
+  switch (updateType) {
+    case 'major':
+      return chalk.red(updateType);
+    case 'minor':
+      return chalk.yellow(updateType);
+    case 'patch':
+      return chalk.green(updateType);
+    default:
+      return chalk.cyan(updateType);
+  }
+}
+
+/**
+ * Format checks status for display, with the state the check policy gives it
+ */
+export function formatChecksStatus(status: ChecksStatus, policy?: CheckPolicy): string {
+  const { completed, total } = status;
+  switch (getEffectiveChecksState(status, policy)) {
     case 'success':
       return chalk.green(`${completed}/${total} passed`);
     case 'failure':
-    case 'error':
       return chalk.red(`${completed}/${total} failed`);
+    case 'blocked':
+      return chalk.magenta(`${completed}/${total} blocked`);
     case 'pending':
       return chalk.yellow(`${completed}/${total} pending`);
-    default:
-      return chalk.dim('unknown');
+  }
+}
+
+/**
+ * Format a review decision for display
+ */
+export function formatReviewDecision(decision: ReviewDecision): string {
+  switch (decision) {
+    case 'APPROVED':
+      return chalk.green('approved');
+    case 'CHANGES_REQUESTED':
+      return chalk.red('changes requested');
+    case 'REVIEW_REQUIRED':
+      return chalk.dim('review required');
   }
 }
 
@@ -173,8 +300,33 @@ export function formatChecksStatus(
 export interface MergeResultSummary {
   prNumber: number;
   title: string;
-  status: 'merged' | 'skipped' | 'failed';
+  /** 'queued' only while a PR waits in a merge queue - final results never have it */
+  status: 'merged' | 'skipped' | 'failed' | 'queued';
   reason?: string;
+  /** owner/repo, set for multi-repository runs */
+  repository?: string;
+  /** Non-blocking problems, e.g. failed optional checks */
+  warnings?: string[];
+  /** Rebase strategy that finished the rebase, if one was triggered */
+  rebaseStrategy?: RebaseStrategy;
+  rebaseOutcome?: RebaseOutcome;
+  /** Error code for skipped / failed PRs, if known */
+  errorCode?: ErrorCode;
+  /** Merge commit SHA */
+  sha?: string;
+  /** Head SHA that was merged */
+  headSha?: string;
+  /** ISO timestamps and duration of processing (including deferred retries) */
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+/**
+ * Format a PR reference, prefixed with the repository in multi-repo runs
+ */
+function formatPRRef(r: MergeResultSummary): string {
+  return r.repository ? `${r.repository}#${r.prNumber}` : `#${r.prNumber}`;
 }
 
 export function printSummary(results: MergeResultSummary[], dryRun = false): void {
@@ -191,32 +343,77 @@ export function printSummary(results: MergeResultSummary[], dryRun = false): voi
   if (dryRun) {
     console.log(chalk.cyan(`Would merge: ${merged.length}`));
     for (const r of merged) {
-      console.log(chalk.cyan(`  ○ #${r.prNumber}: ${r.title}`));
+      console.log(chalk.cyan(`  ○ ${formatPRRef(r)}: ${r.title}`));
     }
   } else {
     console.log(chalk.green(`Merged: ${merged.length}`));
     for (const r of merged) {
-      console.log(chalk.green(`  ✓ #${r.prNumber}: ${r.title}`));
+      const rebase = r.rebaseOutcome === 'not-needed'
+        ? chalk.dim(' (rebase not needed)')
+        : r.rebaseStrategy ? chalk.dim(` (rebased via ${r.rebaseStrategy})`) : '';
+      console.log(chalk.green(`  ✓ ${formatPRRef(r)}: ${r.title}`) + rebase);
+      for (const warning of r.warnings ?? []) {
+        console.log(chalk.yellow(`    ⚠ ${warning}`));
+      }
     }
   }
 
   if (skipped.length > 0) {
     console.log(chalk.yellow(`Skipped: ${skipped.length}`));
     for (const r of skipped) {
-      console.log(chalk.yellow(`  ○ #${r.prNumber}: ${r.reason}`));
+      console.log(chalk.yellow(`  ○ ${formatPRRef(r)}: ${r.reason}`));
     }
   }
 
   if (failed.length > 0) {
     console.log(chalk.red(`Failed: ${failed.length}`));
     for (const r of failed) {
-      console.log(chalk.red(`  ✗ #${r.prNumber}: ${r.reason}`));
+      console.log(chalk.red(`  ✗ ${formatPRRef(r)}: ${r.reason}`));
     }
   }
 
   console.log('');
 }
 
+/**
+ * Print a per-repository summary table for multi-repo runs
+ */
+export function printRepoSummary(repoResults: RepoRunResult[], dryRun = false): void {
+  console.log(chalk.bold('─── Per repository ───'));
+
+  const width = Math.max(...repoResults.map((r) => `${r.owner}/${r.repo}`.length));
+
+  for (const { owner, repo, result } of repoResults) {
+    const name = `${owner}/${repo}`.padEnd(width);
+    const parts = [
+      chalk.green(`${result.merged} ${dryRun ? 'would merge' : 'merged'}`),
+      result.skipped > 0 ? chalk.yellow(`${result.skipped} skipped`) : chalk.dim('0 skipped'),
+      result.failed > 0 ? chalk.red(`${result.failed} failed`) : chalk.dim('0 failed'),
+    ];
+    console.log(`  ${name}  ${parts.join(', ')}`);
+  }
+
+  console.log('');
+}
+
+/**
+ * Print why each open PR of a repository was or wasn't classified as a bot PR (--explain)
+ */
+export function printBotClassification(entry: RepoPRs): void {
+  const bots = createBotAdapters(entry.policy.options.bots);
+  console.log(chalk.bold(`Bot classification: ${entry.owner}/${entry.repo}`));
+
+  for (const { pr } of entry.overviews?.values() ?? []) {
+    const { adapter, reason } = classifyPR(pr, bots);
+    const verdict = adapter ? chalk.green(adapter.name) : chalk.yellow('not a bot PR');
+    const excluded = adapter && !entry.prs.includes(pr) ? chalk.yellow(' (excluded by selection filter)') : '';
+    console.log(`  #${pr.number} ${pr.title}`);
+    console.log(`    ${verdict}${excluded} ${chalk.dim(`- ${reason}`)}`);
+  }
+
+  console.log('');
+}
+
 /**
  * Print a header
  */
@@ -230,3 +427,47 @@ export function printHeader(text: string): void {
 export function printRepoInfo(owner: string, repo: string): void {
   console.log(chalk.dim(`Repository: ${owner}/${repo}\n`));
 }
+
+/**
+ * Print the Dependency Dashboard entries by section, with the state of linked open PRs
+ * Open Renovate PRs the dashboard doesn't list are printed after it
+ */
+export function printDashboard(
+  dashboard: DependencyDashboard,
+  openPRs: PullRequestOverview[],
+  checkPolicy?: CheckPolicy
+): void {
+  console.log(chalk.bold(`${dashboard.title} (#${dashboard.issueNumber})`));
+  console.log(chalk.dim(`${dashboard.htmlUrl}\n`));
+
+  const byNumber = new Map(openPRs.map((overview) => [overview.pr.number, overview]));
+  let section: string | undefined;
+
+  for (const entry of dashboard.entries) {
+    if (entry.section !== section) {
+      section = entry.section;
+      console.log(chalk.bold(`  ${section || 'Other'}`));
+    }
+
+    const box = entry.checked ? chalk.green('☑') : '☐';
+    const parts = [`    ${box} ${entry.title}`, chalk.dim(`(${describeDashboardAction(entry.action)})`)];
+    const overview = entry.prNumber !== undefined ? byNumber.get(entry.prNumber) : undefined;
+    if (overview) {
+      const { checksStatus } = overview;
+      parts.push(chalk.dim(`[${formatChecksStatus(checksStatus, checkPolicy)}]`));
+    }
+    console.log(parts.join(' '));
+  }
+
+  const listed = new Set(dashboard.entries.map((entry) => entry.prNumber));
+  const unlisted = openPRs.filter((overview) => !listed.has(overview.pr.number));
+  if (unlisted.length > 0) {
+    console.log(chalk.bold('  Open PRs not on the dashboard'));
+    for (const { pr, checksStatus } of unlisted) {
+      const status = formatChecksStatus(checksStatus, checkPolicy);
+      console.log(`    ${formatPRChoice(pr, status)}`);
+    }
+  }
+
+  console.log('');
+}
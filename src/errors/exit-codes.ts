@@ -0,0 +1,79 @@
+/**
+ * Process exit codes for scripted / CI usage
+ */
+
+import { ErrorCode, isGhRenovateError } from './types.js';
+import type { OrchestratorResult } from '../operations/orchestrator.js';
+
+/**
+ * Exit codes describing the outcome of a completed run
+ */
+export enum RunExitCode {
+  SUCCESS = 0,
+  UNEXPECTED_ERROR = 1,
+  /** Some PRs were merged, others failed */
+  PARTIAL_MERGE = 2,
+  /** PRs failed and none were merged */
+  MERGE_FAILED = 3,
+}
+
+/**
+ * Exit code for each error code - every code maps to a distinct value
+ */
+const ERROR_EXIT_CODES: Record<ErrorCode, number> = {
+  [ErrorCode.AUTH_TOKEN_MISSING]: 10,
+  [ErrorCode.AUTH_TOKEN_INVALID]: 11,
+  [ErrorCode.AUTH_INSUFFICIENT_PERMISSIONS]: 12,
+  [ErrorCode.AUTH_APP_NOT_INSTALLED]: 13,
+
+  [ErrorCode.RATE_LIMIT_EXCEEDED]: 20,
+  [ErrorCode.SECONDARY_RATE_LIMIT]: 21,
+
+  [ErrorCode.PR_NOT_FOUND]: 30,
+  [ErrorCode.PR_ALREADY_MERGED]: 31,
+  [ErrorCode.PR_CLOSED]: 32,
+  [ErrorCode.PR_HAS_CONFLICTS]: 33,
+  [ErrorCode.PR_NOT_MERGEABLE]: 34,
+  [ErrorCode.PR_CHECKS_FAILED]: 35,
+  [ErrorCode.MERGE_BLOCKED_PENDING_CHECKS]: 36,
+  [ErrorCode.PR_NOT_APPROVED]: 37,
+  [ErrorCode.POLICY_FORBIDDEN]: 38,
+  [ErrorCode.MERGE_QUEUE_REMOVED]: 39,
+
+  [ErrorCode.NETWORK_TIMEOUT]: 40,
+  [ErrorCode.NETWORK_ERROR]: 41,
+
+  [ErrorCode.RENOVATE_CHECKBOX_NOT_FOUND]: 50,
+  [ErrorCode.NOT_RENOVATE_PR]: 51,
+  [ErrorCode.REBASE_NOT_POSSIBLE]: 52,
+  [ErrorCode.REBASE_REFUSED]: 53,
+  [ErrorCode.REBASE_NO_OP_REJECTED]: 54,
+
+  [ErrorCode.INVALID_REPO_URL]: 60,
+  [ErrorCode.INVALID_ARGUMENT]: 61,
+  [ErrorCode.INVALID_CONFIG]: 62,
+
+  [ErrorCode.POLLING_TIMEOUT]: 70,
+
+  [ErrorCode.AUTO_MERGE_DISABLED]: 80,
+};
+
+/**
+ * Get the exit code for an error that aborted the run
+ */
+export function getErrorExitCode(error: unknown): number {
+  if (isGhRenovateError(error)) {
+    return ERROR_EXIT_CODES[error.code];
+  }
+  return RunExitCode.UNEXPECTED_ERROR;
+}
+
+/**
+ * Get the exit code for a finished orchestrator run
+ */
+export function getRunExitCode(result: OrchestratorResult): number {
+  if (result.failed === 0) {
+    return RunExitCode.SUCCESS;
+  }
+  return result.merged > 0 ? RunExitCode.PARTIAL_MERGE : RunExitCode.MERGE_FAILED;
+}
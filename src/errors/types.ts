@@ -7,6 +7,7 @@ export enum ErrorCode {
   AUTH_TOKEN_MISSING = 'AUTH_TOKEN_MISSING',
   AUTH_TOKEN_INVALID = 'AUTH_TOKEN_INVALID',
   AUTH_INSUFFICIENT_PERMISSIONS = 'AUTH_INSUFFICIENT_PERMISSIONS',
+  AUTH_APP_NOT_INSTALLED = 'AUTH_APP_NOT_INSTALLED',
 
   // Rate limiting
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
@@ -20,6 +21,9 @@ export enum ErrorCode {
   PR_NOT_MERGEABLE = 'PR_NOT_MERGEABLE',
   PR_CHECKS_FAILED = 'PR_CHECKS_FAILED',
   MERGE_BLOCKED_PENDING_CHECKS = 'MERGE_BLOCKED_PENDING_CHECKS',
+  PR_NOT_APPROVED = 'PR_NOT_APPROVED',
+  POLICY_FORBIDDEN = 'POLICY_FORBIDDEN',
+  MERGE_QUEUE_REMOVED = 'MERGE_QUEUE_REMOVED',
 
   // Network
   NETWORK_TIMEOUT = 'NETWORK_TIMEOUT',
@@ -28,12 +32,20 @@ export enum ErrorCode {
   // Renovate
   RENOVATE_CHECKBOX_NOT_FOUND = 'RENOVATE_CHECKBOX_NOT_FOUND',
   NOT_RENOVATE_PR = 'NOT_RENOVATE_PR',
+  REBASE_NOT_POSSIBLE = 'REBASE_NOT_POSSIBLE',
+  REBASE_REFUSED = 'REBASE_REFUSED',
+  REBASE_NO_OP_REJECTED = 'REBASE_NO_OP_REJECTED',
 
   // Input
   INVALID_REPO_URL = 'INVALID_REPO_URL',
+  INVALID_ARGUMENT = 'INVALID_ARGUMENT',
+  INVALID_CONFIG = 'INVALID_CONFIG',
 
   // Timeout
   POLLING_TIMEOUT = 'POLLING_TIMEOUT',
+
+  // Auto-merge
+  AUTO_MERGE_DISABLED = 'AUTO_MERGE_DISABLED',
 }
 
 export abstract class GhRenovateError extends Error {
@@ -52,7 +64,11 @@ export class AuthError extends GhRenovateError {
   readonly recoverable = false;
 
   constructor(
-    readonly code: ErrorCode.AUTH_TOKEN_MISSING | ErrorCode.AUTH_TOKEN_INVALID | ErrorCode.AUTH_INSUFFICIENT_PERMISSIONS,
+    readonly code:
+      | ErrorCode.AUTH_TOKEN_MISSING
+      | ErrorCode.AUTH_TOKEN_INVALID
+      | ErrorCode.AUTH_INSUFFICIENT_PERMISSIONS
+      | ErrorCode.AUTH_APP_NOT_INSTALLED,
     readonly userMessage: string,
     cause?: Error
   ) {
@@ -144,7 +160,7 @@ export class ValidationError extends GhRenovateError {
   readonly recoverable = false;
 
   constructor(
-    readonly code: ErrorCode.INVALID_REPO_URL,
+    readonly code: ErrorCode.INVALID_REPO_URL | ErrorCode.INVALID_ARGUMENT,
     readonly userMessage: string,
     cause?: Error
   ) {
@@ -152,11 +168,32 @@ export class ValidationError extends GhRenovateError {
   }
 }
 
+export class ConfigError extends GhRenovateError {
+  readonly code = ErrorCode.INVALID_CONFIG;
+  readonly recoverable = false;
+
+  constructor(
+    readonly source: string,
+    readonly issues: string[],
+    cause?: Error
+  ) {
+    super(`Invalid configuration in ${source}: ${issues.join('; ')}`, cause);
+  }
+
+  get userMessage(): string {
+    return `Invalid configuration in ${this.source}:\n${this.issues.map((i) => `  - ${i}`).join('\n')}`;
+  }
+}
+
 export class RenovateError extends GhRenovateError {
   readonly recoverable = false;
 
   constructor(
-    readonly code: ErrorCode.RENOVATE_CHECKBOX_NOT_FOUND | ErrorCode.NOT_RENOVATE_PR,
+    readonly code:
+      | ErrorCode.RENOVATE_CHECKBOX_NOT_FOUND
+      | ErrorCode.NOT_RENOVATE_PR
+      | ErrorCode.REBASE_NOT_POSSIBLE
+      | ErrorCode.REBASE_NO_OP_REJECTED,
     readonly userMessage: string,
     cause?: Error
   ) {
@@ -180,3 +217,21 @@ export function isRecoverableError(error: unknown): boolean {
   }
   return false;
 }
+
+/**
+ * Get the HTTP status of an API error (Octokit RequestError), if any
+ */
+export function getHttpStatus(error: unknown): number | undefined {
+  if (error && typeof error === 'object' && 'status' in error && typeof error.status === 'number') {
+    return error.status;
+  }
+  return undefined;
+}
+
+/**
+ * Check if an error is an API error with one of the given HTTP statuses
+ */
+export function hasHttpStatus(error: unknown, ...statuses: number[]): boolean {
+  const status = getHttpStatus(error);
+  return status !== undefined && statuses.includes(status);
+}
@@ -0,0 +1,171 @@
+/**
+ * GitHub App authentication (Octokit auth strategy)
+ *
+ * The app signs a short-lived JWT with its private key, looks up its installation for the
+ * owner of each request and swaps the JWT for an installation token. Installation tokens
+ * expire after an hour, so they are cached per installation and refreshed shortly before.
+ */
+
+import { createSign } from 'node:crypto';
+import type { GitHubClient } from './client.js';
+import { AuthError, ErrorCode, hasHttpStatus } from '../errors/types.js';
+
+export interface AppCredentials {
+  appId: string;
+  /** PEM-encoded private key of the app */
+  privateKey: string;
+}
+
+type OctokitRequest = GitHubClient['request'];
+type Endpoint = ReturnType<OctokitRequest['endpoint']['merge']> & { method: string; url: string };
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+/** Passed by Octokit when the strategy is set as authStrategy */
+interface StrategyOptions extends AppCredentials {
+  request: OctokitRequest;
+}
+
+/** Refresh installation tokens this long before they expire */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/** JWTs may be valid for at most 10 minutes; iat is backdated against clock drift */
+const JWT_LIFETIME_S = 9 * 60;
+const JWT_CLOCK_DRIFT_S = 60;
+
+/** Endpoints that authenticate as the app itself (JWT) rather than as an installation */
+const APP_ENDPOINT_PATTERNS = [/^\/app(?:\/|$)/, /\/installation$/];
+
+/**
+ * Create the JWT authenticating as the app
+ */
+export function createAppJwt(credentials: AppCredentials, now: number = Date.now()): string {
+  const iat = Math.floor(now / 1000) - JWT_CLOCK_DRIFT_S;
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify({ iat, exp: iat + JWT_LIFETIME_S, iss: credentials.appId })).toString('base64url');
+
+  let signature: string;
+  try {
+    signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(credentials.privateKey, 'base64url');
+  } catch (error) {
+    throw new AuthError(
+      ErrorCode.AUTH_TOKEN_INVALID,
+      'GitHub App private key is invalid (expected a PEM-encoded RSA key).',
+      error instanceof Error ? error : undefined
+    );
+  }
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Get the owner a request is about (REST parameters, or GraphQL variables)
+ */
+function getRequestOwner(endpoint: Record<string, unknown>): string | undefined {
+  const variables = (endpoint.variables ?? {}) as Record<string, unknown>;
+  const owner = endpoint.owner ?? endpoint.org ?? variables.owner ?? variables.org;
+  return typeof owner === 'string' ? owner : undefined;
+}
+
+/**
+ * Octokit auth strategy for GitHub Apps
+ * `octokit.auth()` resolves to { type: 'app' }, `octokit.auth({ type: 'installation', owner })`
+ * to the installation token for the owner
+ */
+export function createAppAuth(options: StrategyOptions) {
+  const { request } = options;
+  const installationIds = new Map<string, number>();
+  const tokens = new Map<number, Promise<InstallationToken>>();
+  // Requests without an owner (e.g. GraphQL mutations by node ID) belong to the last owner used
+  let currentOwner: string | undefined;
+
+  const getInstallationId = async (owner: string): Promise<number> => {
+    const key = owner.toLowerCase();
+    const cached = installationIds.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    // Organization installation first, then user installation (a 404 is an answer, not worth retrying)
+    const lookups = [
+      () => request('GET /orgs/{org}/installation', { org: owner, request: { retries: 0 } }),
+      () => request('GET /users/{username}/installation', { username: owner, request: { retries: 0 } }),
+    ];
+    for (const lookup of lookups) {
+      try {
+        const { data } = await lookup();
+        installationIds.set(key, data.id);
+        return data.id;
+      } catch (error) {
+        if (!hasHttpStatus(error, 404)) {
+          throw error;
+        }
+      }
+    }
+
+    throw new AuthError(
+      ErrorCode.AUTH_APP_NOT_INSTALLED,
+      `GitHub App ${options.appId} is not installed for ${owner}.`
+    );
+  };
+
+  const getInstallationToken = async (owner: string, refresh = false): Promise<string> => {
+    const installationId = await getInstallationId(owner);
+    const cached = tokens.get(installationId);
+    if (cached && !refresh) {
+      const { token, expiresAt } = await cached;
+      if (expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+        return token;
+      }
+    }
+
+    const pending = request('POST /app/installations/{installation_id}/access_tokens', {
+      installation_id: installationId,
+    }).then(({ data }) => ({ token: data.token, expiresAt: Date.parse(data.expires_at) }));
+    tokens.set(installationId, pending);
+    pending.catch(() => tokens.delete(installationId));
+    return (await pending).token;
+  };
+
+  const auth = async (authOptions: { type?: 'app' | 'installation'; owner?: string } = {}) => {
+    if (authOptions.type === 'installation' && authOptions.owner) {
+      return { type: 'token', tokenType: 'installation', token: await getInstallationToken(authOptions.owner) };
+    }
+    return { type: 'app', appId: options.appId };
+  };
+
+  const hook = async (hookRequest: OctokitRequest, route: string, parameters?: Record<string, unknown>) => {
+    // route is either "GET /path" with parameters, or complete endpoint options - merge handles both
+    const endpoint = hookRequest.endpoint.merge(route, parameters) as Endpoint;
+
+    if (APP_ENDPOINT_PATTERNS.some((pattern) => pattern.test(endpoint.url))) {
+      endpoint.headers.authorization = `bearer ${createAppJwt(options)}`;
+      return hookRequest(endpoint);
+    }
+
+    const owner = getRequestOwner(endpoint) ?? currentOwner;
+    if (!owner) {
+      throw new AuthError(
+        ErrorCode.AUTH_TOKEN_MISSING,
+        `Cannot tell which GitHub App installation to use for ${endpoint.method} ${endpoint.url}.`
+      );
+    }
+    currentOwner = owner;
+
+    endpoint.headers.authorization = `token ${await getInstallationToken(owner)}`;
+    try {
+      return await hookRequest(endpoint);
+    } catch (error) {
+      if (!hasHttpStatus(error, 401)) {
+        throw error;
+      }
+      // The token was revoked or expired early - retry once with a fresh one
+      endpoint.headers.authorization = `token ${await getInstallationToken(owner, true)}`;
+      return hookRequest(endpoint);
+    }
+  };
+
+  return Object.assign(auth, { hook });
+}
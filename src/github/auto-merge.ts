@@ -0,0 +1,92 @@
+/**
+ * Native GitHub auto-merge (GraphQL only - there is no REST API for auto-merge)
+ */
+
+import type { GitHubClient } from './client.js';
+import type { MergeMethod, MergeStateStatus } from './types.js';
+
+export interface AutoMergeStatus {
+  /** PR was merged */
+  merged: boolean;
+  /** PR was closed without merging */
+  closed: boolean;
+  /** Auto-merge is currently enabled */
+  enabled: boolean;
+  mergeStateStatus: MergeStateStatus;
+  headSha: string;
+  /** Merge commit SHA once merged */
+  mergeCommitSha: string | null;
+}
+
+/**
+ * Enable auto-merge for a PR - GitHub merges it once all requirements are met
+ * Fails if the PR is already mergeable ("clean status"); merge it directly instead
+ */
+export async function enableAutoMerge(
+  client: GitHubClient,
+  pullRequestId: string,
+  mergeMethod: MergeMethod
+): Promise<void> {
+  await client.graphql(
+    `mutation ($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!) {
+      enablePullRequestAutoMerge(input: { pullRequestId: $pullRequestId, mergeMethod: $mergeMethod }) {
+        pullRequest { id }
+      }
+    }`,
+    { pullRequestId, mergeMethod: mergeMethod.toUpperCase() }
+  );
+}
+
+/**
+ * Check if an enableAutoMerge error means the PR can be merged right away
+ */
+export function isCleanStatusError(error: unknown): boolean {
+  return error instanceof Error && /clean status/i.test(error.message);
+}
+
+/**
+ * Get the auto-merge status of a PR
+ */
+export async function getAutoMergeStatus(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<AutoMergeStatus> {
+  const data = await client.graphql<{
+    repository: {
+      pullRequest: {
+        merged: boolean;
+        closed: boolean;
+        headRefOid: string;
+        mergeStateStatus: MergeStateStatus;
+        autoMergeRequest: { enabledAt: string } | null;
+        mergeCommit: { oid: string } | null;
+      };
+    };
+  }>(
+    `query ($owner: String!, $repo: String!, $number: Int!) {
+      repository(owner: $owner, name: $repo) {
+        pullRequest(number: $number) {
+          merged
+          closed
+          headRefOid
+          mergeStateStatus
+          autoMergeRequest { enabledAt }
+          mergeCommit { oid }
+        }
+      }
+    }`,
+    { owner, repo, number: prNumber }
+  );
+
+  const pr = data.repository.pullRequest;
+  return {
+    merged: pr.merged,
+    closed: pr.closed && !pr.merged,
+    enabled: pr.autoMergeRequest !== null,
+    mergeStateStatus: pr.mergeStateStatus,
+    headSha: pr.headRefOid,
+    mergeCommitSha: pr.mergeCommit?.oid ?? null,
+  };
+}
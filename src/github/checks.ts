@@ -4,81 +4,214 @@
 
 import type { GitHubClient } from './client.js';
 import type { ChecksStatus, CheckDetail } from './types.js';
+import { matchesAnyPattern } from '../utils/glob.js';
+
+/** Conclusions that count as a passed check */
+const SUCCESSFUL_CONCLUSIONS = ['success', 'skipped', 'neutral'];
+
+/**
+ * Conclusions that count as a failed check
+ * action_required (needs a manual approval), stale and startup_failure won't resolve by waiting
+ */
+const FAILED_CONCLUSIONS = [
+  'failure',
+  'timed_out',
+  'cancelled',
+  'error',
+  'action_required',
+  'stale',
+  'startup_failure',
+];
+
+/**
+ * How long a queued check suite without runs counts as starting (default)
+ * Many installed apps create suites but never runs - kept short, so those only delay a PR briefly
+ */
+export const DEFAULT_STARTING_SUITE_WINDOW_MS = 45 * 1000;
 
 /**
  * Get combined check status for a PR
  * Combines both GitHub Actions (check_runs) and legacy CI (commit status)
+ * Only requiredChecks (see github/protection) decide the state; without any, every check is required
  */
 export async function getChecksStatus(
   client: GitHubClient,
   owner: string,
   repo: string,
-  sha: string
+  sha: string,
+  requiredChecks: string[] = [],
+  startingSuiteWindowMs: number = DEFAULT_STARTING_SUITE_WINDOW_MS
 ): Promise<ChecksStatus> {
-  // Fetch both check runs and commit status in parallel
-  const [checkRunsResponse, commitStatusResponse] = await Promise.all([
-    client.checks.listForRef({
+  // Fetch check runs, check suites and commit statuses in parallel (all pages)
+  const [checkRuns, checkSuites, commitStatuses] = await Promise.all([
+    client.paginate(client.checks.listForRef, {
       owner,
       repo,
       ref: sha,
       per_page: 100,
     }),
-    client.repos.getCombinedStatusForRef({
+    client.paginate(client.checks.listSuitesForRef, {
       owner,
       repo,
       ref: sha,
+      per_page: 100,
+    }),
+    client.paginate(client.repos.listCommitStatusesForRef, {
+      owner,
+      repo,
+      ref: sha,
+      per_page: 100,
     }),
   ]);
 
+  const details = collectCheckDetails(
+    checkRuns.map((run) => ({
+      id: run.id,
+      appId: run.app?.id ?? null,
+      name: run.name,
+      status: run.status,
+      conclusion: run.conclusion,
+    })),
+    checkSuites.map((suite) => ({
+      status: suite.status ?? '',
+      runCount: suite.latest_check_runs_count,
+      createdAt: suite.created_at ?? null,
+      appName: suite.app?.name ?? null,
+    })),
+    commitStatuses.map((status) => ({ context: status.context, state: status.state })),
+    startingSuiteWindowMs
+  );
+
+  return summarizeChecks(details, requiredChecks);
+}
+
+/** A check run, from REST or GraphQL (lower-case status and conclusion) */
+export interface CheckRunRecord {
+  id: number;
+  appId: number | null;
+  name: string;
+  status: string;
+  conclusion: string | null;
+}
+
+/** A check suite, from REST or GraphQL (lower-case status) */
+export interface CheckSuiteRecord {
+  status: string;
+  runCount: number;
+  createdAt: string | null;
+  appName: string | null;
+}
+
+/** A commit status (legacy CI), newest first */
+export interface CommitStatusRecord {
+  context: string;
+  state: string;
+}
+
+/**
+ * Turn check runs, check suites and commit statuses into check details
+ * Re-runs create new runs, so only the latest run per name and app counts; queued suites
+ * without runs yet count as a pending check for startingSuiteWindowMs after their creation
+ */
+export function collectCheckDetails(
+  checkRuns: CheckRunRecord[],
+  checkSuites: CheckSuiteRecord[],
+  commitStatuses: CommitStatusRecord[],
+  startingSuiteWindowMs: number = DEFAULT_STARTING_SUITE_WINDOW_MS,
+  now: number = Date.now()
+): CheckDetail[] {
   const details: CheckDetail[] = [];
-  let total = 0;
-  let completed = 0;
-  let successful = 0;
-  let failed = 0;
-  let pending = 0;
 
-  // Process check runs (GitHub Actions, etc.)
-  for (const run of checkRunsResponse.data.check_runs) {
-    total++;
+  const latestRuns = new Map<string, CheckRunRecord>();
+  for (const run of checkRuns) {
+    const key = `${run.appId ?? ''}:${run.name}`;
+    const existing = latestRuns.get(key);
+    if (!existing || run.id > existing.id) {
+      latestRuns.set(key, run);
+    }
+  }
+  for (const run of latestRuns.values()) {
     details.push({
       name: run.name,
-      status: run.status as 'queued' | 'in_progress' | 'completed',
+      status: run.status === 'completed' || run.status === 'in_progress' ? run.status : 'queued',
       conclusion: run.conclusion,
+      required: true,
     });
+  }
 
-    if (run.status === 'completed') {
-      completed++;
-      if (run.conclusion === 'success' || run.conclusion === 'skipped' || run.conclusion === 'neutral') {
-        successful++;
-      } else if (run.conclusion === 'failure' || run.conclusion === 'timed_out' || run.conclusion === 'cancelled') {
-        failed++;
-      }
-    } else {
-      pending++;
+  // Check suites that are queued but have no runs yet - CI is about to start
+  for (const suite of checkSuites) {
+    const isStarting =
+      suite.status === 'queued' &&
+      suite.runCount === 0 &&
+      now - new Date(suite.createdAt ?? 0).getTime() < startingSuiteWindowMs;
+    if (isStarting) {
+      details.push({
+        name: `${suite.appName ?? 'check suite'} (starting)`,
+        status: 'queued',
+        conclusion: null,
+        required: true,
+      });
     }
   }
 
-  // Process commit statuses (legacy CI systems)
-  for (const status of commitStatusResponse.data.statuses) {
-    // Avoid duplicates - check runs and statuses can overlap
-    const existingDetail = details.find((d) => d.name === status.context);
-    if (existingDetail) {
-      continue;
+  // Keep the latest status per context - check runs and statuses can overlap
+  for (const status of commitStatuses) {
+    if (!details.some((d) => d.name === status.context)) {
+      details.push(mapCommitStatus(status.context, status.state));
     }
+  }
 
-    total++;
-    const isCompleted = status.state !== 'pending';
-    details.push({
-      name: status.context,
-      status: isCompleted ? 'completed' : 'in_progress',
-      conclusion: status.state === 'pending' ? null : status.state,
-    });
+  return details;
+}
 
-    if (isCompleted) {
+/**
+ * Map a commit status (legacy CI) to a check detail
+ */
+function mapCommitStatus(context: string, state: string): CheckDetail {
+  const isCompleted = state !== 'pending';
+  return {
+    name: context,
+    status: isCompleted ? 'completed' : 'in_progress',
+    conclusion: isCompleted ? state : null,
+    required: true,
+  };
+}
+
+/**
+ * Check if a completed check failed
+ */
+function isFailedCheck(detail: CheckDetail): boolean {
+  return detail.status === 'completed' && FAILED_CONCLUSIONS.includes(detail.conclusion ?? '');
+}
+
+/**
+ * Combine check runs and commit statuses into an overall status
+ * Counts and state cover required checks only; required checks that haven't reported yet are pending
+ */
+export function summarizeChecks(checks: CheckDetail[], requiredChecks: string[] = []): ChecksStatus {
+  const details = requiredChecks.length === 0
+    ? checks
+    : [
+        ...checks.map((check) => ({ ...check, required: requiredChecks.includes(check.name) })),
+        ...requiredChecks
+          .filter((name) => !checks.some((check) => check.name === name))
+          .map((name): CheckDetail => ({ name, status: 'queued', conclusion: null, required: true })),
+      ];
+
+  const required = details.filter((detail) => detail.required);
+  const total = required.length;
+  let completed = 0;
+  let successful = 0;
+  let failed = 0;
+  let pending = 0;
+
+  for (const detail of required) {
+    if (detail.status === 'completed') {
       completed++;
-      if (status.state === 'success') {
+      if (SUCCESSFUL_CONCLUSIONS.includes(detail.conclusion ?? '')) {
         successful++;
-      } else if (status.state === 'failure' || status.state === 'error') {
+      } else if (isFailedCheck(detail)) {
         failed++;
       }
     } else {
@@ -105,107 +238,133 @@ export async function getChecksStatus(
     successful,
     failed,
     pending,
+    optionalFailed: details.filter((detail) => !detail.required && isFailedCheck(detail)).length,
     details,
   };
 }
 
 /**
- * Format failed checks for display
+ * Which checks matter, by name (globs, or regexes written as /.../)
+ * Checks matching no list count if they are required (see github/protection)
  */
-export function formatFailedChecks(status: ChecksStatus): string {
-  const failedChecks = status.details.filter(
-    (d) =>
-      d.conclusion === 'failure' ||
-      d.conclusion === 'timed_out' ||
-      d.conclusion === 'cancelled' ||
-      d.conclusion === 'error'
-  );
+export interface CheckPolicy {
+  /** Never affect the state, even if required */
+  ignore: string[];
+  /** Waited for and gated on, even if optional (e.g. slow security scanners) */
+  wait: string[];
+  /** Skip the PR while pending instead of waiting (e.g. Renovate's release age checks) */
+  block: string[];
+}
 
-  if (failedChecks.length === 0) {
-    return 'No failed checks';
-  }
+export const DEFAULT_CHECK_POLICY: CheckPolicy = {
+  ignore: [],
+  wait: [],
+  block: ['renovate/stability-days', 'renovate/minimum-release-age'],
+};
 
-  return failedChecks.map((c) => `${c.name} (${c.conclusion})`).join(', ');
-}
+export type EffectiveChecksState = 'success' | 'pending' | 'blocked' | 'failure';
 
 /**
- * Check if all required checks have passed
+ * Check if a check decides whether the PR can be merged
  */
-export function areChecksPassing(status: ChecksStatus): boolean {
-  return status.state === 'success';
+function isGatingCheck(detail: CheckDetail, policy: CheckPolicy): boolean {
+  if (matchesAnyPattern(detail.name, policy.ignore)) {
+    return false;
+  }
+  return (
+    detail.required ||
+    matchesAnyPattern(detail.name, policy.wait) ||
+    matchesAnyPattern(detail.name, policy.block)
+  );
 }
 
 /**
- * Check if checks are still running
+ * Get the state that merge decisions are based on - the single place the check policy is applied
+ * Failed gating checks win over pending ones; a pending blocking check means the PR can't be merged now
  */
-export function areChecksPending(status: ChecksStatus): boolean {
-  return status.state === 'pending';
+export function getEffectiveChecksState(
+  status: ChecksStatus,
+  policy: CheckPolicy = DEFAULT_CHECK_POLICY
+): EffectiveChecksState {
+  const gating = status.details.filter((d) => isGatingCheck(d, policy));
+
+  if (gating.some(isFailedCheck)) {
+    return 'failure';
+  }
+
+  const pending = gating.filter((d) => d.status !== 'completed');
+  if (pending.some((d) => matchesAnyPattern(d.name, policy.block))) {
+    return 'blocked';
+  }
+
+  return pending.length > 0 ? 'pending' : 'success';
 }
 
 /**
- * Check if any checks have failed
+ * Format failed checks for display
  */
-export function areChecksFailing(status: ChecksStatus): boolean {
-  return status.state === 'failure' || status.state === 'error';
+export function formatFailedChecks(status: ChecksStatus, policy: CheckPolicy = DEFAULT_CHECK_POLICY): string {
+  const failedChecks = status.details.filter((d) => isGatingCheck(d, policy) && isFailedCheck(d));
+
+  if (failedChecks.length === 0) {
+    return 'No failed checks';
+  }
+
+  return failedChecks.map((c) => `${c.name} (${c.conclusion})`).join(', ');
 }
 
 /**
- * Checks that should be ignored when determining if PR is ready
- * These checks can be pending indefinitely (e.g., stability-days)
+ * Format the pending blocking checks for display
  */
-const IGNORED_PENDING_CHECKS = [
-  'renovate/stability-days',
-];
+export function formatBlockingChecks(status: ChecksStatus, policy: CheckPolicy = DEFAULT_CHECK_POLICY): string {
+  return status.details
+    .filter((d) => d.status !== 'completed' && isGatingCheck(d, policy) && matchesAnyPattern(d.name, policy.block))
+    .map((c) => c.name)
+    .join(', ');
+}
 
 /**
- * Check if the only pending checks are ones we should ignore
- * Returns true if PR is blocked by non-ignorable pending checks
+ * Warning for failed optional checks (they don't block merging)
  */
-export function hasBlockingPendingChecks(status: ChecksStatus): boolean {
-  const pendingChecks = status.details.filter(
-    (d) => d.status !== 'completed'
+export function getOptionalChecksWarning(
+  status: ChecksStatus,
+  policy: CheckPolicy = DEFAULT_CHECK_POLICY
+): string | undefined {
+  const failedChecks = status.details.filter(
+    (d) => !isGatingCheck(d, policy) && !matchesAnyPattern(d.name, policy.ignore) && isFailedCheck(d)
   );
 
-  // If no pending checks, not blocked
-  if (pendingChecks.length === 0) {
-    return false;
+  if (failedChecks.length === 0) {
+    return undefined;
   }
 
-  // Check if ALL pending checks are ignorable
-  const allIgnorable = pendingChecks.every((check) =>
-    IGNORED_PENDING_CHECKS.some((ignored) =>
-      check.name.toLowerCase().includes(ignored.toLowerCase())
-    )
-  );
-
-  // Blocked if NOT all are ignorable
-  return !allIgnorable;
+  return `Optional checks failed: ${failedChecks.map((c) => `${c.name} (${c.conclusion})`).join(', ')}`;
 }
 
 /**
- * Check if PR has a stability-days check that is pending
+ * Check if all gating checks have passed
  */
-export function hasStabilityDaysPending(status: ChecksStatus): boolean {
-  return status.details.some(
-    (d) =>
-      d.name.toLowerCase().includes('stability-days') &&
-      d.status !== 'completed'
-  );
+export function areChecksPassing(status: ChecksStatus, policy?: CheckPolicy): boolean {
+  return getEffectiveChecksState(status, policy) === 'success';
 }
 
 /**
- * Get checks status excluding ignored checks from pending count
+ * Check if gating checks are still running
  */
-export function getEffectiveChecksState(status: ChecksStatus): 'success' | 'pending' | 'failure' | 'error' {
-  if (status.failed > 0) {
-    return 'failure';
-  }
+export function areChecksPending(status: ChecksStatus, policy?: CheckPolicy): boolean {
+  return getEffectiveChecksState(status, policy) === 'pending';
+}
 
-  // Check if there are non-ignorable pending checks
-  if (hasBlockingPendingChecks(status)) {
-    return 'pending';
-  }
+/**
+ * Check if any gating checks have failed
+ */
+export function areChecksFailing(status: ChecksStatus, policy?: CheckPolicy): boolean {
+  return getEffectiveChecksState(status, policy) === 'failure';
+}
 
-  // All checks passed or only ignorable ones are pending
-  return 'success';
+/**
+ * Check if a blocking check is pending (the PR should be skipped, not waited for)
+ */
+export function areChecksBlocked(status: ChecksStatus, policy?: CheckPolicy): boolean {
+  return getEffectiveChecksState(status, policy) === 'blocked';
 }
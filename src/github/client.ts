@@ -5,10 +5,19 @@
 import { Octokit } from '@octokit/rest';
 import { retry } from '@octokit/plugin-retry';
 import { throttling } from '@octokit/plugin-throttling';
-import { AuthError, ErrorCode } from '../errors/types.js';
+import { readFile } from 'node:fs/promises';
+import { AuthError, ErrorCode, getHttpStatus } from '../errors/types.js';
+import { DEFAULT_HOST, getApiBaseUrl, isDotCom, normalizeHost } from '../utils/url-parser.js';
+import { getGhHostsPath, loadGhHosts } from '../utils/gh-config.js';
+import { createAppAuth, type AppCredentials } from './app-auth.js';
 
 export interface ClientOptions {
-  token: string;
+  /** Personal access token - either token or app is required */
+  token?: string;
+  /** GitHub App credentials, used instead of a token */
+  app?: AppCredentials;
+  /** REST API base URL (default: https://api.github.com) */
+  baseUrl?: string;
   onRateLimit?: (retryAfter: number, options: object) => void;
   onSecondaryRateLimit?: (retryAfter: number, options: object) => void;
 }
@@ -24,7 +33,8 @@ const CustomOctokit = Octokit.plugin(retry, throttling);
  */
 export function createGitHubClient(options: ClientOptions): GitHubClient {
   return new CustomOctokit({
-    auth: options.token,
+    ...(options.app ? { authStrategy: createAppAuth, auth: options.app } : { auth: options.token }),
+    baseUrl: options.baseUrl ?? getApiBaseUrl(DEFAULT_HOST),
 
     throttle: {
       onRateLimit: (retryAfter, opts, _octokit, retryCount) => {
@@ -73,42 +83,171 @@ export function createGitHubClient(options: ClientOptions): GitHubClient {
   });
 }
 
+/** A token and where it was found, e.g. "GITHUB_TOKEN" */
+export interface ResolvedToken {
+  token: string;
+  source: string;
+}
+
+/** Result of one credential source - the token, or null with what was checked */
+interface CredentialLookup {
+  token: string | null;
+  /** Where the source looked, listed in the error if no source has a token */
+  checked: string;
+}
+
+type CredentialResolver = (host: string) => Promise<CredentialLookup>;
+
 /**
- * Get GitHub token from environment or throw error
+ * Environment variables holding a token for a host, in order
+ * Enterprise hosts prefer GH_ENTERPRISE_TOKEN / GITHUB_ENTERPRISE_TOKEN (same as the gh CLI)
  */
-export function getGitHubTokenFromEnv(): string {
-  const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
-  if (!token) {
+function getTokenVariables(host: string): string[] {
+  const shared = ['GITHUB_TOKEN', 'GH_TOKEN'];
+  return isDotCom(host) ? shared : ['GH_ENTERPRISE_TOKEN', 'GITHUB_ENTERPRISE_TOKEN', ...shared];
+}
+
+/**
+ * Look up the token in the environment
+ */
+async function resolveFromEnv(host: string): Promise<CredentialLookup> {
+  const variables = getTokenVariables(host);
+  const name = variables.find((variable) => process.env[variable]);
+  return {
+    token: name ? process.env[name]! : null,
+    checked: name ?? `environment (${variables.join(', ')})`,
+  };
+}
+
+/**
+ * Look up the token gh CLI stores for the host in hosts.yml
+ */
+async function resolveFromGhConfig(host: string): Promise<CredentialLookup> {
+  const path = getGhHostsPath();
+  const hosts = await loadGhHosts(path);
+  const entry = hosts?.find((candidate) => candidate.host === normalizeHost(host));
+
+  if (entry?.oauthToken) {
+    return { token: entry.oauthToken, checked: `gh CLI (${path})` };
+  }
+  const detail = !hosts
+    ? 'not found'
+    : !entry
+      ? `not logged in to ${host}`
+      : `no token for ${host}, gh may keep it in the system keyring`;
+  return { token: null, checked: `${path} (${detail})` };
+}
+
+/** Credential sources, in order of precedence */
+const CREDENTIAL_RESOLVERS: CredentialResolver[] = [resolveFromEnv, resolveFromGhConfig];
+
+/**
+ * Resolve the token for a host from the environment, then the gh CLI configuration
+ * Throws an error listing every source checked if none has a token
+ */
+export async function resolveGitHubToken(host: string = DEFAULT_HOST): Promise<ResolvedToken> {
+  const checked: string[] = [];
+  for (const resolve of CREDENTIAL_RESOLVERS) {
+    const lookup = await resolve(host);
+    if (lookup.token) {
+      return { token: lookup.token, source: lookup.checked };
+    }
+    checked.push(lookup.checked);
+  }
+
+  const login = isDotCom(host) ? 'gh auth login' : `gh auth login --hostname ${host}`;
+  throw new AuthError(
+    ErrorCode.AUTH_TOKEN_MISSING,
+    `No GitHub token found for ${host}. Checked: ${checked.join('; ')}. ` +
+      `Set ${getTokenVariables(host)[0]} or run "${login}".`
+  );
+}
+
+/**
+ * Get the token of a separate approver identity from the environment, or null if approvals use the main credential
+ */
+export function getApproverTokenFromEnv(): string | null {
+  return process.env.GITHUB_APPROVER_TOKEN || process.env.GH_APPROVER_TOKEN || null;
+}
+
+/**
+ * Get GitHub App credentials from the environment, or null if no app is configured
+ * The private key is read from GITHUB_APP_PRIVATE_KEY (PEM) or the file GITHUB_APP_PRIVATE_KEY_PATH
+ */
+export async function getGitHubAppFromEnv(): Promise<AppCredentials | null> {
+  const appId = process.env.GITHUB_APP_ID || process.env.GH_APP_ID;
+  const keyPath = process.env.GITHUB_APP_PRIVATE_KEY_PATH;
+  // CI secrets often store the PEM with escaped newlines
+  let privateKey = process.env.GITHUB_APP_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+  if (!appId && !privateKey && !keyPath) {
+    return null;
+  }
+  if (!appId || (!privateKey && !keyPath)) {
     throw new AuthError(
       ErrorCode.AUTH_TOKEN_MISSING,
-      'GitHub token required. Set GITHUB_TOKEN environment variable or provide via --token flag.'
+      'GitHub App authentication needs GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY (or GITHUB_APP_PRIVATE_KEY_PATH).'
     );
   }
-  return token;
+
+  if (!privateKey) {
+    try {
+      privateKey = await readFile(keyPath!, 'utf-8');
+    } catch (error) {
+      throw new AuthError(
+        ErrorCode.AUTH_TOKEN_MISSING,
+        `Cannot read GitHub App private key from ${keyPath}.`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  return { appId, privateKey };
 }
 
 /**
- * Validate that the token works by making a simple API call
+ * Validate that the credentials work by making a simple API call
+ * GitHub Apps are validated by fetching the app itself (installations are looked up per owner later)
  */
 export async function validateToken(client: GitHubClient): Promise<void> {
+  const { type } = (await client.auth()) as { type: string };
+  const isApp = type === 'app';
+
   try {
-    await client.users.getAuthenticated();
+    if (isApp) {
+      await client.apps.getAuthenticated();
+    } else {
+      await client.users.getAuthenticated();
+    }
   } catch (error) {
-    if (error && typeof error === 'object' && 'status' in error) {
-      const status = (error as { status: number }).status;
-      if (status === 401) {
-        throw new AuthError(
-          ErrorCode.AUTH_TOKEN_INVALID,
-          'GitHub token is invalid or expired.'
-        );
-      }
-      if (status === 403) {
-        throw new AuthError(
-          ErrorCode.AUTH_INSUFFICIENT_PERMISSIONS,
-          'GitHub token does not have sufficient permissions.'
-        );
-      }
+    const status = getHttpStatus(error);
+    if (status === 401) {
+      throw new AuthError(
+        ErrorCode.AUTH_TOKEN_INVALID,
+        isApp
+          ? 'GitHub App authentication failed. Check the app ID and private key.'
+          : 'GitHub token is invalid or expired.'
+      );
+    }
+    if (status === 403) {
+      throw new AuthError(
+        ErrorCode.AUTH_INSUFFICIENT_PERMISSIONS,
+        'GitHub token does not have sufficient permissions.'
+      );
     }
     throw error;
   }
 }
+
+/**
+ * Get the login reviews and comments are attributed to (a GitHub App acts as "<slug>[bot]")
+ */
+export async function getAuthenticatedLogin(client: GitHubClient): Promise<string> {
+  const { type } = (await client.auth()) as { type: string };
+  if (type === 'app') {
+    const { data } = await client.apps.getAuthenticated();
+    return `${data?.slug}[bot]`;
+  }
+  const { data } = await client.users.getAuthenticated();
+  return data.login;
+}
@@ -0,0 +1,94 @@
+/**
+ * CODEOWNERS parsing and lookup
+ *
+ * Patterns follow GitHub's CODEOWNERS syntax (a subset of .gitignore): the last matching
+ * line wins, and a line without owners leaves its files unowned.
+ */
+
+import type { GitHubClient } from './client.js';
+import { getFileContent } from './contents.js';
+
+/** Where GitHub looks for the CODEOWNERS file, in order */
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export interface CodeownersRule {
+  pattern: string;
+  /** @user, @org/team or email owners - empty if the pattern is explicitly unowned */
+  owners: string[];
+  regex: RegExp;
+}
+
+/**
+ * Convert a CODEOWNERS pattern to a regular expression matching repository paths
+ * Patterns without a slash match at any depth; "dir/*" matches only direct children
+ */
+export function codeownersPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.startsWith('/') || pattern.slice(0, -1).includes('/');
+  const body = pattern.replace(/^\//, '').replace(/\/$/, '');
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '*' && body[i + 1] === '*') {
+      // "**/" matches any number of directories, a trailing "**" everything below
+      const slash = body[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  // A matching directory owns everything inside it
+  const descendants = /(?:^|\/)\*$/.test(body) ? '' : '(?:/.*)?';
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}${descendants}$`);
+}
+
+/**
+ * Parse the rules of a CODEOWNERS file
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) continue;
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern, owners, regex: codeownersPatternToRegExp(pattern) });
+  }
+  return rules;
+}
+
+/**
+ * Get the owners of a file - the owners of the last matching rule
+ */
+export function findCodeowners(rules: CodeownersRule[], path: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(path)) {
+      return rules[i].owners;
+    }
+  }
+  return [];
+}
+
+/**
+ * Load the CODEOWNERS rules of a branch, or an empty list if it has no CODEOWNERS file
+ */
+export async function loadCodeowners(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  ref?: string
+): Promise<CodeownersRule[]> {
+  for (const path of CODEOWNERS_PATHS) {
+    const content = await getFileContent(client, owner, repo, path, ref);
+    if (content !== null) {
+      return parseCodeowners(content);
+    }
+  }
+  return [];
+}
@@ -0,0 +1,39 @@
+/**
+ * Repository content operations
+ */
+
+import type { GitHubClient } from './client.js';
+import { hasHttpStatus } from '../errors/types.js';
+
+/**
+ * Read a text file from a repository
+ * Uses the default branch unless a ref is given. Returns null if the file doesn't exist.
+ */
+export async function getFileContent(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  path: string,
+  ref?: string
+): Promise<string | null> {
+  try {
+    const { data } = await client.repos.getContent({
+      owner,
+      repo,
+      path,
+      ref,
+    });
+
+    // Directories and symlinks/submodules are returned differently
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+      return null;
+    }
+
+    return Buffer.from(data.content, 'base64').toString('utf-8');
+  } catch (error) {
+    if (hasHttpStatus(error, 404)) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Merge queue operations (GraphQL only - there is no REST API for merge queues)
+ */
+
+import type { GitHubClient } from './client.js';
+
+export type MergeQueueEntryState =
+  | 'QUEUED'
+  | 'AWAITING_CHECKS'
+  | 'MERGEABLE'
+  | 'UNMERGEABLE'
+  | 'LOCKED';
+
+export interface MergeQueueStatus {
+  /** PR was merged */
+  merged: boolean;
+  /** PR was closed without merging */
+  closed: boolean;
+  /** PR is currently in the queue */
+  inQueue: boolean;
+  /** 1-based position in the queue */
+  position: number | null;
+  state: MergeQueueEntryState | null;
+  /** Merge commit SHA once merged */
+  mergeCommitSha: string | null;
+}
+
+/**
+ * Check if a GraphQL error means the mergeQueue field doesn't exist (hosts without merge queues)
+ */
+function isMissingMergeQueueField(error: unknown): boolean {
+  return error instanceof Error && /field 'mergeQueue' doesn't exist/i.test(error.message);
+}
+
+/**
+ * Check if a branch requires a merge queue
+ * Returns false if the host doesn't support merge queues (older GHES); other errors are thrown
+ */
+export async function hasMergeQueue(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<boolean> {
+  try {
+    const data = await client.graphql<{ repository: { mergeQueue: { id: string } | null } | null }>(
+      `query ($owner: String!, $repo: String!, $branch: String!) {
+        repository(owner: $owner, name: $repo) {
+          mergeQueue(branch: $branch) { id }
+        }
+      }`,
+      { owner, repo, branch }
+    );
+    return !!data.repository?.mergeQueue;
+  } catch (error) {
+    if (isMissingMergeQueueField(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Add a PR to the merge queue of its base branch
+ * expectedHeadSha guards against enqueueing a commit that wasn't checked
+ */
+export async function enqueuePullRequest(
+  client: GitHubClient,
+  pullRequestId: string,
+  expectedHeadSha: string
+): Promise<void> {
+  await client.graphql(
+    `mutation ($pullRequestId: ID!, $expectedHeadOid: GitObjectID) {
+      enqueuePullRequest(input: { pullRequestId: $pullRequestId, expectedHeadOid: $expectedHeadOid }) {
+        mergeQueueEntry { id }
+      }
+    }`,
+    { pullRequestId, expectedHeadOid: expectedHeadSha }
+  );
+}
+
+/**
+ * Get the merge queue status of a PR
+ */
+export async function getMergeQueueStatus(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<MergeQueueStatus> {
+  const data = await client.graphql<{
+    repository: {
+      pullRequest: {
+        merged: boolean;
+        closed: boolean;
+        mergeCommit: { oid: string } | null;
+        mergeQueueEntry: { position: number; state: MergeQueueEntryState } | null;
+      };
+    };
+  }>(
+    `query ($owner: String!, $repo: String!, $number: Int!) {
+      repository(owner: $owner, name: $repo) {
+        pullRequest(number: $number) {
+          merged
+          closed
+          mergeCommit { oid }
+          mergeQueueEntry { position state }
+        }
+      }
+    }`,
+    { owner, repo, number: prNumber }
+  );
+
+  const pr = data.repository.pullRequest;
+  return {
+    merged: pr.merged,
+    closed: pr.closed && !pr.merged,
+    inQueue: pr.mergeQueueEntry !== null,
+    position: pr.mergeQueueEntry?.position ?? null,
+    state: pr.mergeQueueEntry?.state ?? null,
+    mergeCommitSha: pr.mergeCommit?.oid ?? null,
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Branch protection and ruleset operations
+ */
+
+import type { GitHubClient } from './client.js';
+import { hasHttpStatus } from '../errors/types.js';
+
+export interface ReviewRequirements {
+  /** Approvals needed from reviewers with write access */
+  requiredApprovals: number;
+  /** Each changed file with a code owner needs an approval from one of its owners */
+  requireCodeOwnerReviews: boolean;
+}
+
+export interface BranchProtection {
+  /** Names of required status checks (classic protection and rulesets combined) */
+  requiredChecks: string[];
+  /** Branches must be up to date before merging ("require branches to be up to date") */
+  strict: boolean;
+  /** Required pull request reviews (classic protection and rulesets combined) */
+  reviews: ReviewRequirements;
+}
+
+/** Reviews required when the branch has no review rules */
+export const NO_REVIEW_REQUIREMENTS: ReviewRequirements = {
+  requiredApprovals: 0,
+  requireCodeOwnerReviews: false,
+};
+
+/**
+ * Read the "require branches to be up to date" setting of classic branch protection
+ * The branch endpoint leaves it out; without access to the protection endpoint it's assumed on
+ */
+async function getStrictSetting(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<boolean> {
+  try {
+    const { data } = await client.repos.getStatusChecksProtection({ owner, repo, branch });
+    return data.strict ?? true;
+  } catch (error) {
+    if (!hasHttpStatus(error, 403, 404)) {
+      throw error;
+    }
+    return true;
+  }
+}
+
+/**
+ * Read the required reviews of classic branch protection
+ * Needs admin access - without it, the rulesets are the only source
+ */
+async function getClassicReviewRequirements(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<ReviewRequirements> {
+  try {
+    const { data } = await client.repos.getPullRequestReviewProtection({ owner, repo, branch });
+    return {
+      requiredApprovals: data.required_approving_review_count ?? 0,
+      requireCodeOwnerReviews: data.require_code_owner_reviews,
+    };
+  } catch (error) {
+    if (!hasHttpStatus(error, 403, 404)) {
+      throw error;
+    }
+    return NO_REVIEW_REQUIREMENTS;
+  }
+}
+
+/**
+ * Get the protection settings that apply to a branch
+ * Uses the branch endpoint and active rulesets, both readable without admin access
+ */
+export async function getBranchProtection(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<BranchProtection> {
+  const requiredChecks = new Set<string>();
+  let strict = false;
+  const reviews = { ...NO_REVIEW_REQUIREMENTS };
+
+  // Classic branch protection
+  try {
+    const { data } = await client.repos.getBranch({ owner, repo, branch });
+    if (data.protected) {
+      const classic = await getClassicReviewRequirements(client, owner, repo, branch);
+      reviews.requiredApprovals = classic.requiredApprovals;
+      reviews.requireCodeOwnerReviews = classic.requireCodeOwnerReviews;
+    }
+    const statusChecks = data.protection?.required_status_checks;
+    for (const context of statusChecks?.contexts ?? []) {
+      requiredChecks.add(context);
+    }
+    if (data.protected && statusChecks && statusChecks.enforcement_level !== 'off') {
+      strict ||= statusChecks.strict ?? await getStrictSetting(client, owner, repo, branch);
+    }
+  } catch (error) {
+    if (!hasHttpStatus(error, 403, 404)) {
+      throw error;
+    }
+    // Protection unknown - rebasing behind PRs is the safe choice
+    strict = true;
+  }
+
+  // Rulesets (not available on older GitHub Enterprise Server versions)
+  try {
+    const rules = await client.paginate(client.repos.getBranchRules, {
+      owner,
+      repo,
+      branch,
+      per_page: 100,
+    });
+    for (const rule of rules) {
+      if (rule.type === 'required_status_checks') {
+        for (const check of rule.parameters?.required_status_checks ?? []) {
+          requiredChecks.add(check.context);
+        }
+        strict ||= rule.parameters?.strict_required_status_checks_policy ?? false;
+      } else if (rule.type === 'pull_request' && rule.parameters) {
+        // The strictest rule applies
+        reviews.requiredApprovals = Math.max(reviews.requiredApprovals, rule.parameters.required_approving_review_count);
+        reviews.requireCodeOwnerReviews ||= rule.parameters.require_code_owner_review;
+      }
+    }
+  } catch (error) {
+    if (!hasHttpStatus(error, 403, 404)) {
+      throw error;
+    }
+  }
+
+  return { requiredChecks: [...requiredChecks], strict, reviews };
+}
@@ -0,0 +1,257 @@
+/**
+ * Bulk loading of open PRs with their check, merge and review state (GraphQL)
+ * One paginated query replaces a REST list plus two check requests per PR
+ */
+
+import type { GitHubClient } from './client.js';
+import type {
+  PullRequest,
+  PullRequestOverview,
+  CheckDetail,
+  MergeStateStatus,
+  ReviewDecision,
+} from './types.js';
+import {
+  collectCheckDetails,
+  getChecksStatus,
+  summarizeChecks,
+  type CheckRunRecord,
+  type CommitStatusRecord,
+} from './checks.js';
+import { getBranchProtection } from './protection.js';
+
+/** PRs per page - kept small because each PR carries up to 100 check contexts and suites */
+const PAGE_SIZE = 50;
+
+const OPEN_PULL_REQUESTS_QUERY = `
+  query ($owner: String!, $repo: String!, $pageSize: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequests(states: OPEN, first: $pageSize, after: $cursor, orderBy: { field: CREATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          id
+          number
+          title
+          body
+          isDraft
+          mergeable
+          mergeStateStatus
+          reviewDecision
+          url
+          createdAt
+          author { __typename login }
+          headRefName
+          headRefOid
+          baseRefName
+          labels(first: 100) { nodes { name } }
+          commits(last: 1) {
+            nodes {
+              commit {
+                statusCheckRollup {
+                  contexts(first: 100) {
+                    pageInfo { hasNextPage }
+                    nodes {
+                      __typename
+                      ... on CheckRun { databaseId name status conclusion checkSuite { app { databaseId } } }
+                      ... on StatusContext { context state }
+                    }
+                  }
+                }
+                checkSuites(first: 100) {
+                  pageInfo { hasNextPage }
+                  nodes { status createdAt app { name } checkRuns(first: 1) { totalCount } }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+type RollupContext =
+  | {
+      __typename: 'CheckRun';
+      databaseId: number;
+      name: string;
+      status: string;
+      conclusion: string | null;
+      checkSuite: { app: { databaseId: number } | null } | null;
+    }
+  | { __typename: 'StatusContext'; context: string; state: string };
+
+interface CheckSuiteNode {
+  status: string;
+  createdAt: string;
+  app: { name: string } | null;
+  checkRuns: { totalCount: number };
+}
+
+interface CommitNode {
+  statusCheckRollup: {
+    contexts: { pageInfo: { hasNextPage: boolean }; nodes: RollupContext[] };
+  } | null;
+  checkSuites: { pageInfo: { hasNextPage: boolean }; nodes: CheckSuiteNode[] } | null;
+}
+
+interface PullRequestNode {
+  id: string;
+  number: number;
+  title: string;
+  body: string;
+  isDraft: boolean;
+  mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+  mergeStateStatus: MergeStateStatus;
+  reviewDecision: ReviewDecision | null;
+  url: string;
+  createdAt: string;
+  author: { __typename: string; login: string } | null;
+  headRefName: string;
+  headRefOid: string;
+  baseRefName: string;
+  labels: { nodes: Array<{ name: string }> };
+  commits: { nodes: Array<{ commit: CommitNode }> };
+}
+
+interface OpenPullRequestsResponse {
+  repository: {
+    pullRequests: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: PullRequestNode[];
+    };
+  };
+}
+
+/**
+ * Collect the check details of a head commit (GraphQL enums are upper case)
+ * Uses the same rules as getChecksStatus - latest run per name and app, starting suites pending
+ */
+function collectCommitChecks(commit: CommitNode | undefined, startingSuiteWindowMs?: number): CheckDetail[] {
+  const contexts = commit?.statusCheckRollup?.contexts.nodes ?? [];
+  const checkRuns: CheckRunRecord[] = [];
+  const commitStatuses: CommitStatusRecord[] = [];
+  for (const context of contexts) {
+    if (context.__typename === 'StatusContext') {
+      commitStatuses.push({ context: context.context, state: context.state.toLowerCase() });
+    } else {
+      checkRuns.push({
+        id: context.databaseId,
+        appId: context.checkSuite?.app?.databaseId ?? null,
+        name: context.name,
+        status: context.status.toLowerCase(),
+        conclusion: context.conclusion?.toLowerCase() ?? null,
+      });
+    }
+  }
+
+  const checkSuites = (commit?.checkSuites?.nodes ?? []).map((suite) => ({
+    status: suite.status.toLowerCase(),
+    runCount: suite.checkRuns.totalCount,
+    createdAt: suite.createdAt,
+    appName: suite.app?.name ?? null,
+  }));
+
+  return collectCheckDetails(checkRuns, checkSuites, commitStatuses, startingSuiteWindowMs);
+}
+
+/**
+ * Check if the query returned only part of a commit's checks (more than a page)
+ */
+function hasMoreChecks(node: PullRequestNode): boolean {
+  const commit = node.commits.nodes[0]?.commit;
+  return !!commit && (
+    !!commit.statusCheckRollup?.contexts.pageInfo.hasNextPage ||
+    !!commit.checkSuites?.pageInfo.hasNextPage
+  );
+}
+
+/**
+ * Map a GraphQL PR node to our types (same shape as the REST mapping in pulls.ts)
+ */
+function mapToOverview(
+  node: PullRequestNode,
+  requiredChecks: string[],
+  startingSuiteWindowMs?: number
+): PullRequestOverview {
+  const pr: PullRequest = {
+    number: node.number,
+    nodeId: node.id,
+    title: node.title,
+    body: node.body,
+    state: 'open',
+    merged: false,
+    draft: node.isDraft,
+    mergeable: node.mergeable === 'UNKNOWN' ? null : node.mergeable === 'MERGEABLE',
+    // REST mergeable_state is the lower-case mergeStateStatus
+    mergeableState: node.mergeStateStatus.toLowerCase(),
+    htmlUrl: node.url,
+    createdAt: node.createdAt,
+    // GraphQL drops the [bot] suffix REST reports for app authors
+    user: node.author
+      ? { login: node.author.__typename === 'Bot' ? `${node.author.login}[bot]` : node.author.login }
+      : null,
+    head: {
+      sha: node.headRefOid,
+      ref: node.headRefName,
+    },
+    base: {
+      ref: node.baseRefName,
+    },
+    labels: node.labels.nodes.map((l) => ({ name: l.name })),
+  };
+
+  return {
+    pr,
+    checksStatus: summarizeChecks(
+      collectCommitChecks(node.commits.nodes[0]?.commit, startingSuiteWindowMs),
+      requiredChecks
+    ),
+    mergeStateStatus: node.mergeStateStatus,
+    reviewDecision: node.reviewDecision,
+  };
+}
+
+/**
+ * Load all open PRs of a repository with their checks, merge state and review decision
+ * Required checks are looked up once per base branch
+ */
+export async function loadOpenPullRequests(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  startingSuiteWindowMs?: number
+): Promise<PullRequestOverview[]> {
+  const nodes: PullRequestNode[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const data: OpenPullRequestsResponse = await client.graphql<OpenPullRequestsResponse>(
+      OPEN_PULL_REQUESTS_QUERY,
+      { owner, repo, pageSize: PAGE_SIZE, cursor }
+    );
+    const { pageInfo } = data.repository.pullRequests;
+    nodes.push(...data.repository.pullRequests.nodes);
+    cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+  } while (cursor);
+
+  const requiredChecks = new Map<string, string[]>();
+  for (const branch of new Set(nodes.map((node) => node.baseRefName))) {
+    const protection = await getBranchProtection(client, owner, repo, branch);
+    requiredChecks.set(branch, protection.requiredChecks);
+  }
+
+  const overviews: PullRequestOverview[] = [];
+  for (const node of nodes) {
+    const required = requiredChecks.get(node.baseRefName)!;
+    const overview = mapToOverview(node, required, startingSuiteWindowMs);
+    // Commits with more checks than a page are read completely over REST
+    if (hasMoreChecks(node)) {
+      overview.checksStatus = await getChecksStatus(
+        client, owner, repo, node.headRefOid, required, startingSuiteWindowMs
+      );
+    }
+    overviews.push(overview);
+  }
+  return overviews;
+}
@@ -4,7 +4,8 @@
 
 import type { GitHubClient } from './client.js';
 import type { PullRequest, MergeMethod, MergeResult } from './types.js';
-import { PRStateError, MergeBlockedError, ErrorCode } from '../errors/types.js';
+import { PRStateError, MergeBlockedError, ErrorCode, getHttpStatus, hasHttpStatus } from '../errors/types.js';
+import { loadOpenPullRequests } from './pull-loader.js';
 
 /**
  * Map GitHub API response to our PullRequest type
@@ -12,6 +13,7 @@ import { PRStateError, MergeBlockedError, ErrorCode } from '../errors/types.js';
 function mapToPullRequest(data: Awaited<ReturnType<GitHubClient['pulls']['get']>>['data']): PullRequest {
   return {
     number: data.number,
+    nodeId: data.node_id,
     title: data.title,
     body: data.body,
     state: data.state as 'open' | 'closed',
@@ -20,6 +22,7 @@ function mapToPullRequest(data: Awaited<ReturnType<GitHubClient['pulls']['get']>
     mergeable: data.mergeable,
     mergeableState: data.mergeable_state,
     htmlUrl: data.html_url,
+    createdAt: data.created_at,
     user: data.user ? { login: data.user.login } : null,
     head: {
       sha: data.head.sha,
@@ -36,48 +39,15 @@ function mapToPullRequest(data: Awaited<ReturnType<GitHubClient['pulls']['get']>
 
 /**
  * List all open pull requests for a repository
+ * Built on the bulk loader - use loadOpenPullRequests directly to also get checks and reviews
  */
 export async function listOpenPullRequests(
   client: GitHubClient,
   owner: string,
   repo: string
 ): Promise<PullRequest[]> {
-  const pulls: PullRequest[] = [];
-
-  // Paginate through all open PRs
-  for await (const response of client.paginate.iterator(client.pulls.list, {
-    owner,
-    repo,
-    state: 'open',
-    per_page: 100,
-  })) {
-    for (const pr of response.data) {
-      pulls.push({
-        number: pr.number,
-        title: pr.title,
-        body: pr.body,
-        state: pr.state as 'open' | 'closed',
-        merged: false, // Open PRs are not merged
-        draft: pr.draft ?? false,
-        mergeable: null, // Need to fetch individually for this
-        mergeableState: '',
-        htmlUrl: pr.html_url,
-        user: pr.user ? { login: pr.user.login } : null,
-        head: {
-          sha: pr.head.sha,
-          ref: pr.head.ref,
-        },
-        base: {
-          ref: pr.base.ref,
-        },
-        labels: pr.labels.map((l) => ({
-          name: typeof l === 'string' ? l : l.name ?? '',
-        })),
-      });
-    }
-  }
-
-  return pulls;
+  const overviews = await loadOpenPullRequests(client, owner, repo);
+  return overviews.map((overview) => overview.pr);
 }
 
 /**
@@ -98,20 +68,35 @@ export async function getPullRequest(
 
     return mapToPullRequest(data);
   } catch (error) {
-    if (error && typeof error === 'object' && 'status' in error) {
-      const status = (error as { status: number }).status;
-      if (status === 404) {
-        throw new PRStateError(
-          ErrorCode.PR_NOT_FOUND,
-          prNumber,
-          'PR not found (may have been deleted)'
-        );
-      }
+    if (hasHttpStatus(error, 404)) {
+      throw new PRStateError(
+        ErrorCode.PR_NOT_FOUND,
+        prNumber,
+        'PR not found (may have been deleted)'
+      );
     }
     throw error;
   }
 }
 
+/**
+ * List the paths of all files changed by a PR
+ */
+export async function listPullRequestFiles(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<string[]> {
+  const files = await client.paginate(client.pulls.listFiles, {
+    owner,
+    repo,
+    pull_number: prNumber,
+    per_page: 100,
+  });
+  return files.map((file) => file.filename);
+}
+
 /**
  * Update a PR's body
  */
@@ -193,33 +178,32 @@ export async function mergePullRequest(
       message: data.message,
     };
   } catch (error) {
-    if (error && typeof error === 'object' && 'status' in error) {
-      const status = (error as { status: number }).status;
-      if (status === 405) {
-        // 405 can mean checks are still pending - throw recoverable error
-        throw new MergeBlockedError(
-          prNumber,
-          'Merge blocked (likely pending checks or branch protection requirements)'
-        );
-      }
-      if (status === 409) {
-        throw new PRStateError(
-          ErrorCode.PR_HAS_CONFLICTS,
-          prNumber,
-          'Merge conflict detected'
-        );
-      }
+    const status = getHttpStatus(error);
+    if (status === 405) {
+      // 405 can mean checks are still pending - throw recoverable error
+      throw new MergeBlockedError(
+        prNumber,
+        'Merge blocked (likely pending checks or branch protection requirements)'
+      );
+    }
+    if (status === 409) {
+      throw new PRStateError(
+        ErrorCode.PR_HAS_CONFLICTS,
+        prNumber,
+        'Merge conflict detected'
+      );
     }
     throw error;
   }
 }
 
 /**
- * Check if a PR needs rebase (is behind base branch)
+ * Check if a PR needs rebase (conflicts, or behind the base branch)
+ * Being behind only matters if the branch must be up to date before merging
  */
-export function needsRebase(pr: PullRequest): boolean {
+export function needsRebase(pr: PullRequest, requireUpToDate: boolean = true): boolean {
   return (
-    pr.mergeableState === 'behind' ||
+    (requireUpToDate && pr.mergeableState === 'behind') ||
     pr.mergeableState === 'dirty' ||
     pr.mergeable === false
   );
@@ -231,23 +215,24 @@ export function needsRebase(pr: PullRequest): boolean {
 export interface PRValidation {
   valid: boolean;
   reason?: string;
+  code?: ErrorCode;
 }
 
 export function validatePRState(pr: PullRequest): PRValidation {
   if (pr.merged) {
-    return { valid: false, reason: 'PR was already merged' };
+    return { valid: false, reason: 'PR was already merged', code: ErrorCode.PR_ALREADY_MERGED };
   }
 
   if (pr.state === 'closed') {
-    return { valid: false, reason: 'PR was closed' };
+    return { valid: false, reason: 'PR was closed', code: ErrorCode.PR_CLOSED };
   }
 
   if (pr.draft) {
-    return { valid: false, reason: 'PR is still in draft' };
+    return { valid: false, reason: 'PR is still in draft', code: ErrorCode.PR_NOT_MERGEABLE };
   }
 
   if (pr.mergeableState === 'dirty') {
-    return { valid: false, reason: 'PR has merge conflicts' };
+    return { valid: false, reason: 'PR has merge conflicts', code: ErrorCode.PR_HAS_CONFLICTS };
   }
 
   return { valid: true };
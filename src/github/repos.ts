@@ -0,0 +1,40 @@
+/**
+ * Repository operations
+ */
+
+import type { GitHubClient } from './client.js';
+import type { RepoInfo } from '../utils/url-parser.js';
+import { ValidationError, ErrorCode, hasHttpStatus } from '../errors/types.js';
+
+/**
+ * List all active (non-archived, non-disabled) repositories of an organization
+ */
+export async function listOrganizationRepositories(
+  client: GitHubClient,
+  org: string
+): Promise<RepoInfo[]> {
+  const repos: RepoInfo[] = [];
+
+  try {
+    for await (const response of client.paginate.iterator(client.repos.listForOrg, {
+      org,
+      type: 'all',
+      per_page: 100,
+    })) {
+      for (const repo of response.data) {
+        if (repo.archived || repo.disabled) continue;
+        repos.push({ owner: repo.owner.login, repo: repo.name });
+      }
+    }
+  } catch (error) {
+    if (hasHttpStatus(error, 404)) {
+      throw new ValidationError(
+        ErrorCode.INVALID_ARGUMENT,
+        `Organization "${org}" not found or not accessible with this token.`
+      );
+    }
+    throw error;
+  }
+
+  return repos;
+}
@@ -2,17 +2,139 @@
  * Review/Approval operations
  */
 
-import type { GitHubClient } from './client.js';
+import { getAuthenticatedLogin, type GitHubClient } from './client.js';
 import type { ReviewInfo } from './types.js';
+import { NO_REVIEW_REQUIREMENTS, type ReviewRequirements } from './protection.js';
+import { findCodeowners, loadCodeowners } from './codeowners.js';
+import { listPullRequestFiles } from './pulls.js';
+import { hasHttpStatus } from '../errors/types.js';
+
+/** Files named per missing code owner approval before the rest is summarized */
+const MAX_LISTED_FILES = 1;
+
+/**
+ * Check if an approval counts toward required reviews - the reviewer needs write access
+ * Apps aren't collaborators, and if the token can't read permissions GitHub decides at merge time
+ */
+async function hasWriteAccess(client: GitHubClient, owner: string, repo: string, login: string): Promise<boolean> {
+  if (login.endsWith('[bot]')) {
+    return true;
+  }
+  try {
+    const { data } = await client.repos.getCollaboratorPermissionLevel({ owner, repo, username: login });
+    return data.permission === 'admin' || data.permission === 'write';
+  } catch (error) {
+    if (hasHttpStatus(error, 404)) return false;
+    if (hasHttpStatus(error, 403)) return true;
+    throw error;
+  }
+}
+
+/**
+ * Check if a user is one of the code owners (@user or @org/team; email owners can't be matched)
+ * If the token can't read team membership (no read:org), GitHub decides at merge time
+ */
+async function isCodeowner(client: GitHubClient, login: string, codeowner: string): Promise<boolean> {
+  if (!codeowner.startsWith('@')) {
+    return false;
+  }
+  const [org, team] = codeowner.slice(1).split('/');
+  if (team === undefined) {
+    return org.toLowerCase() === login.toLowerCase();
+  }
+
+  try {
+    const { data } = await client.teams.getMembershipForUserInOrg({ org, team_slug: team, username: login });
+    return data.state === 'active';
+  } catch (error) {
+    if (hasHttpStatus(error, 404)) return false;
+    if (hasHttpStatus(error, 403)) return true;
+    throw error;
+  }
+}
+
+/**
+ * Check if one of the approvers is one of the code owners
+ */
+async function isApprovedByCodeowner(client: GitHubClient, approvers: string[], codeowners: string[]): Promise<boolean> {
+  for (const login of approvers) {
+    for (const codeowner of codeowners) {
+      if (await isCodeowner(client, login, codeowner)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Find the approvals a PR still needs to satisfy the review requirements of its branch
+ */
+async function findMissingApprovals(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  approvedBy: string[],
+  requirements: ReviewRequirements,
+  baseRef?: string
+): Promise<string[]> {
+  if (requirements.requiredApprovals === 0 && !requirements.requireCodeOwnerReviews) {
+    return [];
+  }
+
+  const qualified: string[] = [];
+  for (const login of approvedBy) {
+    if (await hasWriteAccess(client, owner, repo, login)) {
+      qualified.push(login);
+    }
+  }
+
+  const missing: string[] = [];
+  const required = Math.max(1, requirements.requiredApprovals);
+  if (qualified.length < required) {
+    missing.push(`${required} approval(s) from reviewers with write access (have ${qualified.length})`);
+  }
+
+  if (requirements.requireCodeOwnerReviews) {
+    const rules = await loadCodeowners(client, owner, repo, baseRef);
+    // Files grouped by their owners - one approval per group is enough
+    const groups = new Map<string, { codeowners: string[]; files: string[] }>();
+    if (rules.length > 0) {
+      for (const file of await listPullRequestFiles(client, owner, repo, prNumber)) {
+        const codeowners = findCodeowners(rules, file);
+        if (codeowners.length > 0) {
+          const key = codeowners.join(' or ');
+          const group = groups.get(key) ?? { codeowners, files: [] };
+          group.files.push(file);
+          groups.set(key, group);
+        }
+      }
+    }
+
+    for (const [key, { codeowners, files }] of groups) {
+      if (!await isApprovedByCodeowner(client, qualified, codeowners)) {
+        const more = files.length > MAX_LISTED_FILES ? ` and ${files.length - MAX_LISTED_FILES} more file(s)` : '';
+        missing.push(`approval from code owner ${key} for ${files.slice(0, MAX_LISTED_FILES).join(', ')}${more}`);
+      }
+    }
+  }
+
+  return missing;
+}
 
 /**
  * Get review information for a PR
+ * With requirements, an approval only counts if it satisfies them (write access, CODEOWNERS
+ * of the base branch); without, any approval does
  */
 export async function getReviewInfo(
   client: GitHubClient,
   owner: string,
   repo: string,
-  prNumber: number
+  prNumber: number,
+  requirements: ReviewRequirements = NO_REVIEW_REQUIREMENTS,
+  baseRef?: string
 ): Promise<ReviewInfo> {
   const { data: reviews } = await client.pulls.listReviews({
     owner,
@@ -44,9 +166,14 @@ export async function getReviewInfo(
     }
   }
 
+  const missingApprovals = await findMissingApprovals(
+    client, owner, repo, prNumber, approvedBy, requirements, baseRef
+  );
+
   return {
-    hasApproval: approvedBy.length > 0,
+    hasApproval: approvedBy.length > 0 && missingApprovals.length === 0,
     approvedBy,
+    missingApprovals,
     changesRequested: changesRequestedBy.length > 0,
     changesRequestedBy,
   };
@@ -54,6 +181,7 @@ export async function getReviewInfo(
 
 /**
  * Approve a PR
+ * The client may be a separate approver identity - merging always uses the main one
  */
 export async function approvePullRequest(
   client: GitHubClient,
@@ -78,10 +206,9 @@ export async function hasCurrentUserApproved(
   repo: string,
   prNumber: number
 ): Promise<boolean> {
-  // Get current user
-  const { data: currentUser } = await client.users.getAuthenticated();
+  const login = await getAuthenticatedLogin(client);
 
   const reviewInfo = await getReviewInfo(client, owner, repo, prNumber);
 
-  return reviewInfo.approvedBy.includes(currentUser.login);
+  return reviewInfo.approvedBy.includes(login);
 }
@@ -4,6 +4,8 @@
 
 export interface PullRequest {
   number: number;
+  /** GraphQL node id */
+  nodeId: string;
   title: string;
   body: string | null;
   state: 'open' | 'closed';
@@ -12,6 +14,7 @@ export interface PullRequest {
   mergeable: boolean | null;
   mergeableState: string;
   htmlUrl: string;
+  createdAt: string;
   user: {
     login: string;
   } | null;
@@ -34,6 +37,8 @@ export interface ChecksStatus {
   successful: number;
   failed: number;
   pending: number;
+  /** Failed checks that are not required (informational only) */
+  optionalFailed: number;
   details: CheckDetail[];
 }
 
@@ -41,11 +46,16 @@ export interface CheckDetail {
   name: string;
   status: 'queued' | 'in_progress' | 'completed';
   conclusion: string | null;
+  /** Required by branch protection / rulesets - counts, state and merge decisions use only these */
+  required: boolean;
 }
 
 export interface ReviewInfo {
+  /** Approved, and the approvals satisfy the review requirements that were checked */
   hasApproval: boolean;
   approvedBy: string[];
+  /** Approvals still required, e.g. "approval from code owner @acme/web for package.json" */
+  missingApprovals: string[];
   changesRequested: boolean;
   changesRequestedBy: string[];
 }
@@ -57,3 +67,27 @@ export interface MergeResult {
 }
 
 export type MergeMethod = 'merge' | 'squash' | 'rebase';
+
+/** Merge state as reported by GraphQL (mergeStateStatus) */
+export type MergeStateStatus =
+  | 'BEHIND'
+  | 'BLOCKED'
+  | 'CLEAN'
+  | 'DIRTY'
+  | 'DRAFT'
+  | 'HAS_HOOKS'
+  | 'UNKNOWN'
+  | 'UNSTABLE';
+
+export type ReviewDecision = 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED';
+
+/**
+ * An open PR with its merge-related state, loaded in bulk (see github/pull-loader)
+ */
+export interface PullRequestOverview {
+  pr: PullRequest;
+  checksStatus: ChecksStatus;
+  mergeStateStatus: MergeStateStatus;
+  /** null if the repository requires no reviews */
+  reviewDecision: ReviewDecision | null;
+}
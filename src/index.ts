@@ -1,53 +1,298 @@
 #!/usr/bin/env node
 
 /**
- * gh-renovate - Interactive CLI for batch-merging Renovate PRs
+ * gh-renovate - Interactive CLI for batch-merging Renovate and Dependabot PRs
  */
 
 import chalk from 'chalk';
-import { createGitHubClient, getGitHubTokenFromEnv, validateToken } from './github/client.js';
-import { listOpenPullRequests } from './github/pulls.js';
-import { getChecksStatus } from './github/checks.js';
-import { filterRenovatePRs } from './renovate/detector.js';
-import { parseRepoUrl } from './utils/url-parser.js';
+import {
+  createGitHubClient,
+  getApproverTokenFromEnv,
+  getAuthenticatedLogin,
+  getGitHubAppFromEnv,
+  resolveGitHubToken,
+  validateToken,
+  type GitHubClient,
+} from './github/client.js';
+import { getPullRequest } from './github/pulls.js';
+import { loadOpenPullRequests } from './github/pull-loader.js';
+import { createRenovateAdapter } from './bots/renovate.js';
+import { findDependencyDashboard, tickDashboardEntries } from './renovate/dashboard.js';
+import { hasSelectionFilter, EMPTY_FILTER } from './renovate/selection.js';
+import { buildRepoUrl, getApiBaseUrl, isDotCom } from './utils/url-parser.js';
 import { addRecentRepo } from './utils/config.js';
-import { orchestrateMerge } from './operations/orchestrator.js';
+import {
+  resolveRepoTargets,
+  resolveTargetHost,
+  discoverDependencyPRs,
+  orchestrateBatch,
+  createEmptyBatchResult,
+  evaluatePRs,
+  formatRepo,
+  type RepoPRs,
+} from './operations/batch.js';
 import {
   promptForToken,
   promptForRepoUrl,
   promptForPRSelection,
   promptForMergeConfirmation,
+  promptForSuggestedOrder,
   promptToContinueAfterFailure,
-  type PRWithStatus,
+  promptForDashboardEntries,
 } from './cli/prompts.js';
-import { printHeader, printRepoInfo, printSummary } from './cli/ui.js';
-import { isGhRenovateError } from './errors/types.js';
-import type { MergeMethod } from './github/types.js';
+import {
+  printHeader,
+  printRepoInfo,
+  printSummary,
+  printRepoSummary,
+  printDashboard,
+  printBotClassification,
+  formatBotCounts,
+} from './cli/ui.js';
+import { parseArgs, getCliPolicyConfig, type CliArgs } from './cli/args.js';
+import {
+  redirectLogsToStderr,
+  writeEvent,
+  writeResult,
+  writeError,
+  type OutputFormat,
+} from './cli/output.js';
+import { fetchConflictGraph, suggestOrder, findRebasedPRs } from './operations/ordering.js';
+import { isGhRenovateError, ValidationError, ErrorCode } from './errors/types.js';
+import { getErrorExitCode, getRunExitCode } from './errors/exit-codes.js';
+import {
+  loadGlobalPolicyConfig,
+  loadRepoPolicyConfig,
+  mergePolicyConfigs,
+  toEffectivePolicy,
+} from './utils/policy-config.js';
+import {
+  createJournal,
+  appendJournalEvent,
+  completeJournal,
+  loadResumableJournal,
+  rebuildResumeState,
+  type RunJournal,
+} from './operations/journal.js';
+import type { PullRequest } from './github/types.js';
+
+/**
+ * Check if any repository was given on the command line
+ */
+function hasRepoTargets(args: CliArgs): boolean {
+  return !!args.repoUrl || !!args.org || args.repos.length > 0 || !!args.repoSet;
+}
 
 /**
- * Parse CLI arguments
+ * Headless mode (--yes) never prompts, so everything must come from flags/env
+ * Without --all or a filter, only PRs auto-selected by policy rules are merged
  */
-function parseArgs(): { repoUrl?: string; dryRun: boolean } {
-  const args = process.argv.slice(2);
-  let repoUrl: string | undefined;
-  let dryRun = false;
-
-  for (const arg of args) {
-    if (arg === '--dry-run' || arg === '-n') {
-      dryRun = true;
-    } else if (!arg.startsWith('-')) {
-      repoUrl = arg;
+function validateHeadlessArgs(args: CliArgs): void {
+  if (args.output !== 'text' && !args.yes) {
+    throw new ValidationError(
+      ErrorCode.INVALID_ARGUMENT,
+      `--output ${args.output} requires --yes (prompts would corrupt the output).`
+    );
+  }
+
+  if (!args.yes) {
+    return;
+  }
+
+  if (args.command !== 'resume' && !hasRepoTargets(args)) {
+    throw new ValidationError(
+      ErrorCode.INVALID_ARGUMENT,
+      '--yes requires a repository (owner/repo, --org, --repos or --repo-set).'
+    );
+  }
+}
+
+/**
+ * Get credentials for the host and create a validated client
+ * GitHub App credentials take precedence over a token (environment, then gh CLI config)
+ */
+async function connect(host: string, args: CliArgs): Promise<GitHubClient> {
+  const app = await getGitHubAppFromEnv();
+  let token: string | undefined;
+  if (!app) {
+    try {
+      const resolved = await resolveGitHubToken(host);
+      token = resolved.token;
+      console.log(chalk.dim(`Using token from ${resolved.source}.`));
+    } catch (error) {
+      // Headless mode cannot prompt
+      if (args.yes || !(error instanceof Error)) {
+        throw error;
+      }
+      // No token configured, prompt for it
+      console.log(chalk.dim(`${error.message}\n`));
+      token = await promptForToken();
     }
   }
 
-  return { repoUrl, dryRun };
+  const client = createGitHubClient({
+    token,
+    app: app ?? undefined,
+    baseUrl: getApiBaseUrl(host),
+    onRateLimit: (retryAfter) => {
+      console.log(chalk.yellow(`\nRate limit hit. Waiting ${retryAfter}s...`));
+    },
+  });
+
+  const credential = app ? `GitHub App ${app.appId}` : 'token';
+  console.log(chalk.dim(isDotCom(host) ? `Validating ${credential}...` : `Validating ${credential} for ${host}...`));
+  await validateToken(client);
+  console.log(chalk.green(app ? 'GitHub App validated.\n' : 'Token validated.\n'));
+
+  return client;
 }
 
 /**
- * Main entry point
+ * Create a validated client for the approver identity (GITHUB_APPROVER_TOKEN)
+ * Without one, PRs are approved by the client that merges them
  */
-async function main(): Promise<void> {
-  const { repoUrl: repoUrlArg, dryRun } = parseArgs();
+async function connectApprover(host: string, client: GitHubClient): Promise<GitHubClient> {
+  const token = getApproverTokenFromEnv();
+  if (!token) {
+    return client;
+  }
+
+  const approver = createGitHubClient({ token, baseUrl: getApiBaseUrl(host) });
+  console.log(chalk.dim('Validating approver token...'));
+  await validateToken(approver);
+
+  const login = await getAuthenticatedLogin(approver);
+  if (login === await getAuthenticatedLogin(client)) {
+    console.log(chalk.yellow(`Approver token belongs to ${login}, the same identity that merges.`));
+  }
+  console.log(chalk.green(`Approver token validated (approving as ${login}).\n`));
+
+  return approver;
+}
+
+/**
+ * Report an empty result when there is nothing to do
+ */
+function finishEmpty(args: CliArgs): void {
+  if (args.output !== 'text') {
+    writeResult(createEmptyBatchResult(args.dryRun), args.output);
+  }
+}
+
+/**
+ * Order the selected PRs per repository so fewer of them need a rebase
+ * The conflict-aware order is applied if configured (orderByConflicts), otherwise offered
+ * interactively; headless runs without the option keep the selection order unchecked
+ * Returns the PRs in merge order and, if changed files were checked, the PRs expected to need a rebase
+ */
+async function planMergeOrder(
+  client: GitHubClient,
+  discovered: RepoPRs[],
+  selectedPRs: PullRequest[],
+  args: CliArgs
+): Promise<{ order: PullRequest[]; rebases?: Set<PullRequest> }> {
+  const order: PullRequest[] = [];
+  let rebases: Set<PullRequest> | undefined;
+  const multiRepo = discovered.length > 1;
+
+  for (const entry of discovered) {
+    const prs = selectedPRs.filter((pr) => entry.prs.includes(pr));
+    const apply = entry.policy.options.orderByConflicts;
+    if (prs.length < 2 || (args.yes && !apply)) {
+      order.push(...prs);
+      continue;
+    }
+
+    console.log(chalk.dim(`Checking changed files${multiRepo ? ` in ${formatRepo(entry)}` : ''}...`));
+    const graph = await fetchConflictGraph(client, entry.owner, entry.repo, prs);
+    const suggestion = suggestOrder(prs, graph);
+
+    let repoOrder = prs;
+    if (suggestion.suggestedRebases < suggestion.predictedRebases) {
+      if (apply) {
+        console.log(chalk.dim(
+          `Reordered by changed files (${suggestion.predictedRebases} → ${suggestion.suggestedRebases} predicted rebases).`
+        ));
+        repoOrder = suggestion.order;
+      } else if (await promptForSuggestedOrder(suggestion, graph, multiRepo ? formatRepo(entry) : undefined)) {
+        repoOrder = suggestion.order;
+      }
+    }
+
+    order.push(...repoOrder);
+    rebases ??= new Set();
+    for (const pr of findRebasedPRs(repoOrder, graph)) {
+      rebases.add(pr);
+    }
+  }
+
+  return { order, rebases };
+}
+
+/**
+ * Run the orchestrator for the selections, journal every event and report the result
+ */
+async function runBatch(
+  client: GitHubClient,
+  approver: GitHubClient,
+  selections: RepoPRs[],
+  args: CliArgs,
+  journal?: RunJournal
+): Promise<void> {
+  console.log(''); // Empty line before processing starts
+
+  if (journal) {
+    console.log(chalk.dim(`Run ID: ${journal.id} (resume with: gh-renovate resume ${journal.id})\n`));
+
+    // Interrupted runs stay resumable
+    process.once('SIGINT', () => {
+      console.error(chalk.yellow(`\nInterrupted. Resume with: gh-renovate resume ${journal.id}`));
+      process.exit(130);
+    });
+  }
+
+  const batch = await orchestrateBatch(
+    client,
+    selections,
+    args.yes ? undefined : promptToContinueAfterFailure,
+    (event) => {
+      if (journal) {
+        appendJournalEvent(journal, event);
+      }
+      if (args.output === 'ndjson') {
+        writeEvent(event);
+      }
+    },
+    approver
+  );
+  const result = batch.combined;
+
+  if (journal) {
+    completeJournal(journal);
+  }
+
+  // Print summary
+  if (args.output === 'text') {
+    printSummary(result.results, result.dryRun);
+    if (batch.repos.length > 1) {
+      printRepoSummary(batch.repos, result.dryRun);
+    }
+  } else {
+    writeResult(batch, args.output);
+  }
+
+  // Exit with error code if any failed
+  const exitCode = getRunExitCode(result);
+  if (exitCode !== 0) {
+    process.exit(exitCode);
+  }
+}
+
+/**
+ * Default command: discover, select and merge dependency bot PRs
+ */
+async function mergeCommand(args: CliArgs): Promise<void> {
+  const { dryRun } = args;
 
   if (dryRun) {
     printHeader('gh-renovate - Renovate PR Merger [DRY-RUN]');
@@ -56,100 +301,295 @@ async function main(): Promise<void> {
     printHeader('gh-renovate - Renovate PR Merger');
   }
 
-  try {
-    // Step 1: Get GitHub token
-    let token: string;
-    try {
-      token = getGitHubTokenFromEnv();
-    } catch {
-      // No token in env, prompt for it
-      console.log(chalk.dim('No GITHUB_TOKEN found in environment.\n'));
-      token = await promptForToken();
-    }
+  // Step 1: Get repository URL if no target was given (it determines the host)
+  if (!hasRepoTargets(args)) {
+    args.repoUrl = await promptForRepoUrl();
+  }
+  const host = await resolveTargetHost(args);
 
-    // Step 2: Create and validate client
-    const client = createGitHubClient({
-      token,
-      onRateLimit: (retryAfter) => {
-        console.log(chalk.yellow(`\nRate limit hit. Waiting ${retryAfter}s...`));
-      },
-    });
+  // Step 2: Get token, create and validate client
+  const client = await connect(host, args);
+  const approver = await connectApprover(host, client);
 
-    console.log(chalk.dim('Validating token...'));
-    await validateToken(client);
-    console.log(chalk.green('Token validated.\n'));
+  // Step 3: Resolve target repositories
+  const targets = await resolveRepoTargets(client, args);
+  if (targets.length === 0) {
+    console.log(chalk.yellow('No repositories found.'));
+    finishEmpty(args);
+    return;
+  }
+  const multiRepo = targets.length > 1;
 
-    // Step 3: Get repository URL
-    const repoUrl = repoUrlArg || await promptForRepoUrl();
-    const { owner, repo } = parseRepoUrl(repoUrl);
-    printRepoInfo(owner, repo);
+  if (multiRepo) {
+    console.log(chalk.dim(`Repositories: ${targets.length}\n`));
+  } else {
+    printRepoInfo(targets[0].owner, targets[0].repo);
+  }
 
-    // Step 4: Fetch open PRs
-    console.log(chalk.dim('Fetching open pull requests...'));
-    const allPRs = await listOpenPullRequests(client, owner, repo);
+  // Step 4: Load configuration layers, fetch open PRs and filter to dependency bot PRs
+  console.log(chalk.dim('Fetching open pull requests...'));
+  const layers = {
+    global: await loadGlobalPolicyConfig(),
+    cli: getCliPolicyConfig(args),
+  };
+  const discovered = await discoverDependencyPRs(
+    client,
+    targets,
+    layers,
+    multiRepo
+      ? (target, error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.log(chalk.yellow(`Skipping ${formatRepo(target)}: ${message}`));
+        }
+      : undefined
+  );
 
-    // Step 5: Filter to Renovate PRs
-    const renovatePRs = filterRenovatePRs(allPRs);
+  // Save repo to history (valid repo, even if no PRs)
+  if (!multiRepo) {
+    const { owner, repo } = targets[0];
+    await addRecentRepo(isDotCom(host) ? formatRepo(targets[0]) : buildRepoUrl(owner, repo, host));
+  }
 
-    // Save repo to history (valid repo, even if no PRs)
-    await addRecentRepo(`${owner}/${repo}`);
+  if (args.explain) {
+    for (const entry of discovered) {
+      printBotClassification(entry);
+    }
+  }
 
-    if (renovatePRs.length === 0) {
-      console.log(chalk.yellow('No open Renovate PRs found.'));
-      return;
+  const botPRs = discovered.flatMap((d) => d.prs);
+  if (botPRs.length === 0) {
+    console.log(chalk.yellow('No open Renovate or Dependabot PRs found.'));
+    finishEmpty(args);
+    return;
+  }
+
+  // Remember which repository each PR belongs to
+  const prRepos = new Map<PullRequest, RepoPRs>();
+  for (const entry of discovered) {
+    for (const pr of entry.prs) {
+      prRepos.set(pr, entry);
     }
+  }
 
-    console.log(chalk.green(`Found ${renovatePRs.length} Renovate PR(s).\n`));
+  console.log(chalk.green(
+    multiRepo
+      ? `Found ${botPRs.length} dependency PR(s)${formatBotCounts(discovered)} in ${discovered.filter((d) => d.prs.length > 0).length} repositories.\n`
+      : `Found ${botPRs.length} dependency PR(s)${formatBotCounts(discovered)}.\n`
+  ));
 
-    // Step 6: Fetch check status for each PR (for display)
-    console.log(chalk.dim('Fetching CI status for PRs...'));
-    const prsWithStatus: PRWithStatus[] = [];
+  // Step 5: Evaluate merge policy rules (CI status was loaded together with the PRs)
+  const interactiveSelection = !args.all && !args.yes;
+  const prsWithStatus = evaluatePRs(discovered, { multiRepo });
 
-    for (const pr of renovatePRs) {
-      const checksStatus = await getChecksStatus(client, owner, repo, pr.head.sha);
-      prsWithStatus.push({ pr, checksStatus });
+  // Step 6: Select PRs - prompt, or in headless mode all allowed PRs (--all / filters)
+  // or the ones auto-selected by policy
+  let selectedPRs: PullRequest[];
+  if (interactiveSelection) {
+    selectedPRs = await promptForPRSelection(prsWithStatus);
+  } else {
+    for (const { pr, decision, repository } of prsWithStatus) {
+      if (decision?.action === 'forbid') {
+        const ref = repository ? `${repository}#${pr.number}` : `#${pr.number}`;
+        console.log(chalk.dim(`Locked by policy: ${ref} - ${decision.reason}`));
+      }
     }
 
-    // Step 7: Prompt for PR selection
-    const selectedPRs = await promptForPRSelection(prsWithStatus);
+    const selectAllowed = args.all || hasSelectionFilter(args.filter);
+    selectedPRs = prsWithStatus
+      .filter(({ decision }) =>
+        selectAllowed ? decision?.action !== 'forbid' : decision?.action === 'auto-select'
+      )
+      .map(({ pr }) => pr);
+  }
 
-    if (selectedPRs.length === 0) {
-      console.log(chalk.yellow('No PRs selected.'));
-      return;
-    }
+  if (selectedPRs.length === 0) {
+    console.log(chalk.yellow('No PRs selected.'));
+    finishEmpty(args);
+    return;
+  }
 
-    // Step 8: Confirm
-    const confirmed = await promptForMergeConfirmation(selectedPRs);
+  // Step 7: Order by changed files - PRs changing the same files need a rebase after each merge
+  const plan = await planMergeOrder(client, discovered, selectedPRs, args);
+  selectedPRs = plan.order;
+
+  // Step 8: Confirm
+  if (args.yes) {
+    console.log(chalk.dim(`Merging ${selectedPRs.length} PR(s) without confirmation (--yes).\n`));
+  } else {
+    const repositories = multiRepo
+      ? new Map(selectedPRs.map((pr) => [pr, formatRepo(prRepos.get(pr)!)]))
+      : undefined;
+    const confirmed = await promptForMergeConfirmation(selectedPRs, repositories, plan.rebases);
 
     if (!confirmed) {
       console.log(chalk.yellow('Cancelled.'));
       return;
     }
+  }
 
-    // Step 9: Run the orchestrator
-    console.log(''); // Empty line before processing starts
-
-    const result = await orchestrateMerge(
-      client,
-      owner,
-      repo,
-      selectedPRs,
-      {
-        mergeMethod: 'squash' as MergeMethod,
-        continueOnError: true,
-        checkTimeoutMs: 10 * 60 * 1000,
-        rebaseTimeoutMs: 5 * 60 * 1000,
-        dryRun,
-      },
-      promptToContinueAfterFailure
-    );
+  // Step 9: Run the orchestrator, one repository at a time (merge order within each)
+  const selections: RepoPRs[] = discovered
+    .map((entry) => ({
+      ...entry,
+      prs: selectedPRs.filter((pr) => prRepos.get(pr) === entry),
+    }))
+    .filter((selection) => selection.prs.length > 0);
 
-    // Step 10: Print summary
-    printSummary(result.results, result.dryRun);
+  // Dry runs change nothing, so there is nothing to resume
+  const journal = dryRun
+    ? undefined
+    : createJournal(
+        host,
+        selections.map(({ owner, repo, prs, policy }) => ({
+          owner,
+          repo,
+          prNumbers: prs.map((pr) => pr.number),
+          options: policy.options,
+        }))
+      );
+
+  await runBatch(client, approver, selections, args, journal);
+}
+
+/**
+ * `resume [run-id]`: continue an interrupted run from its journal
+ */
+async function resumeCommand(args: CliArgs): Promise<void> {
+  const journal = loadResumableJournal(args.runId);
+
+  printHeader(`gh-renovate - Resuming run ${journal.id}`);
+  console.log(chalk.dim(`Started ${journal.createdAt}, ${journal.events.length} event(s) recorded.\n`));
+
+  const client = await connect(journal.host, args);
+  const approver = await connectApprover(journal.host, client);
 
-    // Exit with error code if any failed
-    if (result.failed > 0) {
-      process.exit(1);
+  const selections: RepoPRs[] = [];
+  for (const target of journal.repos) {
+    const resume = rebuildResumeState(journal, target);
+
+    // Fetch remaining PRs fresh - some may have been merged or closed meanwhile
+    const prs: PullRequest[] = [];
+    for (const prNumber of resume.remaining) {
+      const pr = await getPullRequest(client, target.owner, target.repo, prNumber);
+      if (pr.merged || pr.state === 'closed') {
+        const merged = pr.merged;
+        resume.results.push({
+          prNumber,
+          title: pr.title,
+          status: merged ? 'merged' : 'skipped',
+          reason: merged ? 'PR was already merged' : 'PR was closed',
+        });
+        console.log(chalk.dim(`${formatRepo(target)}#${prNumber}: ${merged ? 'already merged' : 'closed'}, skipping`));
+        continue;
+      }
+      prs.push(pr);
+    }
+
+    selections.push({
+      owner: target.owner,
+      repo: target.repo,
+      prs,
+      policy: { options: target.options, filter: { ...EMPTY_FILTER } },
+      resume,
+    });
+  }
+
+  const remaining = selections.reduce((sum, selection) => sum + selection.prs.length, 0);
+  console.log(chalk.green(`${remaining} PR(s) left to process.`));
+
+  await runBatch(client, approver, selections, args, journal);
+}
+
+/**
+ * Show the Dependency Dashboard of a repository and tick selected entries
+ * Headless (--yes) ticks every unticked entry with --all, otherwise only shows the dashboard
+ */
+async function dashboardCommand(args: CliArgs): Promise<void> {
+  if (args.output !== 'text') {
+    throw new ValidationError(ErrorCode.INVALID_ARGUMENT, `--output ${args.output} is not supported by dashboard.`);
+  }
+  if (args.org || args.repos.length > 0 || args.repoSet) {
+    throw new ValidationError(ErrorCode.INVALID_ARGUMENT, 'dashboard works on a single repository (owner/repo).');
+  }
+
+  printHeader(args.dryRun ? 'gh-renovate - Dependency Dashboard [DRY-RUN]' : 'gh-renovate - Dependency Dashboard');
+
+  if (!hasRepoTargets(args)) {
+    args.repoUrl = await promptForRepoUrl();
+  }
+  const host = await resolveTargetHost(args);
+  const client = await connect(host, args);
+  const [{ owner, repo }] = await resolveRepoTargets(client, args);
+  printRepoInfo(owner, repo);
+
+  const dashboard = await findDependencyDashboard(client, owner, repo);
+  if (!dashboard) {
+    console.log(chalk.yellow('No Dependency Dashboard issue found (is dependencyDashboard enabled in Renovate?).'));
+    return;
+  }
+
+  // Self-hosted Renovate may open its PRs under a configured identity; PR checks follow the repo's check policy
+  const config = mergePolicyConfigs(await loadGlobalPolicyConfig(), await loadRepoPolicyConfig(client, owner, repo));
+  const renovate = createRenovateAdapter(config.bots?.renovate);
+  const { options } = toEffectivePolicy(config);
+  const overviews = await loadOpenPullRequests(client, owner, repo, options.startingSuiteWindowMs);
+  printDashboard(
+    dashboard,
+    overviews.filter((overview) => renovate.match(overview.pr) !== null),
+    options.checks
+  );
+
+  const unticked = dashboard.entries.filter((entry) => !entry.checked);
+  if (unticked.length === 0) {
+    console.log(chalk.dim('Nothing to tick.'));
+    return;
+  }
+
+  const selected = args.yes
+    ? (args.all ? unticked : [])
+    : await promptForDashboardEntries(unticked);
+  if (selected.length === 0) {
+    console.log(chalk.yellow('No entries selected.'));
+    return;
+  }
+
+  if (args.dryRun) {
+    for (const entry of selected) {
+      console.log(chalk.cyan(`[DRY-RUN] Would tick: ${entry.title}`));
+    }
+    return;
+  }
+
+  const ticked = await tickDashboardEntries(client, owner, repo, dashboard.issueNumber, selected);
+  for (const entry of selected.filter((e) => !ticked.includes(e))) {
+    console.log(chalk.yellow(`No longer on the dashboard: ${entry.title}`));
+  }
+  console.log(chalk.green(`Ticked ${ticked.length} checkbox(es). Renovate acts on them in its next run.`));
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  let output: OutputFormat = 'text';
+
+  try {
+    const args = parseArgs();
+    output = args.output;
+
+    // Keep stdout clean for machine-readable output
+    if (output !== 'text') {
+      redirectLogsToStderr();
+    }
+
+    validateHeadlessArgs(args);
+
+    if (args.command === 'resume') {
+      await resumeCommand(args);
+    } else if (args.command === 'dashboard') {
+      await dashboardCommand(args);
+    } else {
+      await mergeCommand(args);
     }
   } catch (error) {
     if (isGhRenovateError(error)) {
@@ -159,7 +599,10 @@ async function main(): Promise<void> {
     } else {
       console.error(chalk.red('\nAn unexpected error occurred.'));
     }
-    process.exit(1);
+    if (output !== 'text') {
+      writeError(error, output);
+    }
+    process.exit(getErrorExitCode(error));
   }
 }
 
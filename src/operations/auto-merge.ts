@@ -0,0 +1,456 @@
+/**
+ * Auto-merge workflow - hand the PRs to GitHub's native auto-merge and keep them up to date
+ */
+
+import type { GitHubClient } from '../github/client.js';
+import type { PullRequest } from '../github/types.js';
+import { getPullRequest, mergePullRequest, validatePRState } from '../github/pulls.js';
+import {
+  getChecksStatus,
+  areChecksFailing,
+  areChecksBlocked,
+  getOptionalChecksWarning,
+} from '../github/checks.js';
+import { getBranchProtection, type BranchProtection } from '../github/protection.js';
+import {
+  enableAutoMerge,
+  getAutoMergeStatus,
+  isCleanStatusError,
+  type AutoMergeStatus,
+} from '../github/auto-merge.js';
+import { ErrorCode, RenovateError, isGhRenovateError } from '../errors/types.js';
+import { getRebaseProgress, triggerRebase } from '../renovate/rebase.js';
+import { createBotAdapters, getBotAdapter, getDependencyInfo } from '../bots/registry.js';
+import { evaluatePolicy } from '../policy/engine.js';
+import { poll, sleep, formatDuration, createCICheckPollerOptions } from '../utils/poller.js';
+import { UIController, type MergeResultSummary } from '../cli/ui.js';
+import {
+  DEFAULT_OPTIONS,
+  ensureApproval,
+  skipForChecks,
+  type OrchestratorOptions,
+  type OrchestratorResult,
+} from './orchestrator.js';
+import { createPREmitter, type RunEventData, type RunEventListener } from './events.js';
+import type { ResumeState } from './journal.js';
+
+interface WatchedPR {
+  pr: PullRequest;
+  result: MergeResultSummary;
+  emit: (data: RunEventData) => void;
+}
+
+/**
+ * Approve a PR and enable auto-merge for it
+ * Returns 'queued' while GitHub still has to merge it
+ */
+async function enableForPR(
+  client: GitHubClient,
+  approver: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  ui: UIController,
+  options: OrchestratorOptions,
+  emit: (data: RunEventData) => void
+): Promise<MergeResultSummary> {
+  const result: MergeResultSummary = {
+    prNumber: pr.number,
+    title: pr.title,
+    status: 'failed',
+  };
+
+  try {
+    ui.updateStatus('Fetching latest PR data...');
+    const freshPR = await getPullRequest(client, owner, repo, pr.number);
+    result.headSha = freshPR.head.sha;
+
+    const validation = validatePRState(freshPR);
+    if (!validation.valid) {
+      result.status = 'skipped';
+      result.reason = validation.reason;
+      result.errorCode = validation.code;
+      return result;
+    }
+
+    // Failing required checks would keep auto-merge waiting forever, and GitHub
+    // doesn't wait for blocking checks that aren't required
+    ui.updateStatus('Checking CI status...');
+    const { requiredChecks, reviews } = await getBranchProtection(client, owner, repo, freshPR.base.ref);
+    const checksStatus = await getChecksStatus(
+      client, owner, repo, freshPR.head.sha, requiredChecks, options.startingSuiteWindowMs
+    );
+    if (areChecksFailing(checksStatus, options.checks) || areChecksBlocked(checksStatus, options.checks)) {
+      return skipForChecks(result, checksStatus, options.checks);
+    }
+    const optionalWarning = getOptionalChecksWarning(checksStatus, options.checks);
+    result.warnings = optionalWarning ? [optionalWarning] : undefined;
+
+    const decision = evaluatePolicy(options.rules, {
+      pr: freshPR,
+      dependency: getDependencyInfo(freshPR, createBotAdapters(options.bots)),
+      checksStatus,
+      checkPolicy: options.checks,
+    });
+    if (decision.action === 'forbid') {
+      result.status = 'skipped';
+      result.reason = `Blocked by policy: ${decision.reason}`;
+      result.errorCode = ErrorCode.POLICY_FORBIDDEN;
+      return result;
+    }
+
+    if (!await ensureApproval(client, approver, owner, repo, freshPR, reviews, ui, options, emit, result)) {
+      return result;
+    }
+
+    if (options.dryRun) {
+      ui.updateStatus('[DRY-RUN] Would enable auto-merge...');
+      result.status = 'merged';
+      return result;
+    }
+
+    const status = await getAutoMergeStatus(client, owner, repo, pr.number);
+    if (!status.enabled) {
+      ui.updateStatus('Enabling auto-merge...');
+      try {
+        await enableAutoMerge(client, freshPR.nodeId, options.mergeMethod);
+      } catch (error) {
+        if (!isCleanStatusError(error)) {
+          throw error;
+        }
+        // Nothing left to wait for - merge right away
+        ui.updateStatus('Merging...');
+        const mergeResult = await mergePullRequest(client, owner, repo, pr.number, {
+          mergeMethod: options.mergeMethod,
+        });
+        result.status = 'merged';
+        result.sha = mergeResult.sha;
+        return result;
+      }
+      emit({ type: 'auto-merge-enabled', sha: freshPR.head.sha, method: options.mergeMethod });
+    }
+
+    result.status = 'queued';
+    return result;
+  } catch (error) {
+    if (isGhRenovateError(error)) {
+      result.reason = error.userMessage;
+      result.errorCode = error.code;
+    } else {
+      result.reason = error instanceof Error ? error.message : 'Unknown error';
+    }
+    return result;
+  }
+}
+
+/**
+ * Watch auto-merge PRs until each is merged, closed or has auto-merge disabled
+ * Rebases the first open PR (in selection order) whenever it falls behind its base branch,
+ * and approves PRs again after a push (dismissing stale reviews drops the approval)
+ */
+async function watchAutoMerge(
+  client: GitHubClient,
+  approver: GitHubClient,
+  owner: string,
+  repo: string,
+  watched: WatchedPR[],
+  ui: UIController,
+  options: OrchestratorOptions,
+  pendingRebases: Map<number, string>,
+  rebaseMethods: Map<number, string>
+): Promise<void> {
+  const pending = [...watched];
+  // Branch protection per base branch
+  const protections = new Map<string, BranchProtection>();
+  // Head SHA each PR's approval was last ensured for
+  const approvedHeads = new Map<number, string | undefined>(
+    watched.map(({ pr, result }) => [pr.number, result.headSha])
+  );
+  // When the rebase for the current head SHA was triggered, and with which strategy (per PR number)
+  const rebaseStarted = new Map<number, number>([...pendingRebases.keys()].map((n) => [n, Date.now()]));
+  // Resumed rebases wait on the strategy the interrupted run triggered last
+  const rebaseStep = new Map<number, number>(
+    [...pendingRebases.keys()].map((n) => [
+      n,
+      Math.max(options.rebaseStrategies.findIndex((step) => step.strategy === rebaseMethods.get(n)), 0),
+    ])
+  );
+  // The PR as it was when its rebase was triggered (the baseline rebase outcomes are detected against)
+  const rebaseTargets = new Map<number, PullRequest>();
+  const bots = createBotAdapters(options.bots);
+  const spinner = ui.currentSpinner;
+  spinner.start(`Waiting for ${pending.length} PR(s) to auto-merge...`);
+
+  const finish = (entry: WatchedPR, update: Partial<MergeResultSummary>): void => {
+    const { pr, result, emit } = entry;
+    pending.splice(pending.indexOf(entry), 1);
+    Object.assign(result, update);
+
+    if (result.status === 'merged') {
+      ui.success(`#${pr.number}: Auto-merged`);
+      emit({ type: 'merged', sha: result.sha ?? result.headSha });
+    } else {
+      if (result.status === 'skipped') {
+        ui.warn(`#${pr.number}: ${result.reason}`);
+      } else {
+        ui.error(`#${pr.number}: ${result.reason}`);
+      }
+      emit({ type: result.status as 'skipped' | 'failed', reason: result.reason, errorCode: result.errorCode });
+    }
+
+    if (pending.length > 0) {
+      spinner.start(`Waiting for ${pending.length} PR(s) to auto-merge...`);
+    }
+  };
+
+  const getProtection = async (branch: string): Promise<BranchProtection> => {
+    if (!protections.has(branch)) {
+      protections.set(branch, await getBranchProtection(client, owner, repo, branch));
+    }
+    return protections.get(branch)!;
+  };
+
+  // A push may have dismissed the approval - approve the new head like the orchestrator does
+  // Returns false if the PR was dropped for lack of an approval
+  const reapprove = async (entry: WatchedPR, status: AutoMergeStatus): Promise<boolean> => {
+    const freshPR = await getPullRequest(client, owner, repo, entry.pr.number);
+    const { reviews } = await getProtection(freshPR.base.ref);
+    const result = { ...entry.result };
+    if (!await ensureApproval(client, approver, owner, repo, freshPR, reviews, ui, options, entry.emit, result)) {
+      finish(entry, {
+        status: 'skipped',
+        reason: `${result.reason} (auto-merge left enabled)`,
+        errorCode: result.errorCode,
+      });
+      return false;
+    }
+    approvedHeads.set(entry.pr.number, status.headSha);
+    return true;
+  };
+
+  // Keep the first open PR moving: rebase it when behind, drop it when its checks fail
+  const advance = async (entry: WatchedPR, status: AutoMergeStatus): Promise<void> => {
+    const { pr, emit } = entry;
+
+    if (status.mergeStateStatus === 'BEHIND' || status.mergeStateStatus === 'DIRTY') {
+      const steps = options.rebaseStrategies;
+      const step = rebaseStep.get(pr.number) ?? 0;
+      const isNewRebase = pendingRebases.get(pr.number) !== status.headSha;
+
+      // Start the chain for a new head, or move on to another strategy
+      const trigger = async (fromIndex: number): Promise<void> => {
+        try {
+          const freshPR = await getPullRequest(client, owner, repo, pr.number);
+          const index = await triggerRebase(client, owner, repo, freshPR, getBotAdapter(freshPR, bots), steps, fromIndex);
+          const method = steps[index].strategy;
+          emit({ type: 'rebase-triggered', sha: status.headSha, method });
+          pendingRebases.set(pr.number, status.headSha);
+          rebaseTargets.set(pr.number, freshPR);
+          rebaseStarted.set(pr.number, Date.now());
+          rebaseStep.set(pr.number, index);
+          ui.info(`#${pr.number}: Rebase triggered via ${method}`);
+        } catch (error) {
+          if (!(error instanceof RenovateError)) {
+            throw error;
+          }
+          finish(entry, { status: 'failed', reason: `${error.userMessage} (auto-merge left enabled)`, errorCode: error.code });
+        }
+      };
+
+      if (isNewRebase) {
+        await trigger(0);
+        return;
+      }
+
+      // The bot may have answered without pushing (refused, or nothing to rebase)
+      const target = rebaseTargets.get(pr.number) ?? await getPullRequest(client, owner, repo, pr.number);
+      rebaseTargets.set(pr.number, target);
+      const bot = getBotAdapter(target, bots);
+      const progress = await getRebaseProgress(
+        client, owner, repo, target, bot, steps[step].strategy, new Date(rebaseStarted.get(pr.number)!)
+      );
+      if (progress.outcome === 'refused' || progress.outcome === 'not-needed') {
+        // Only update-branch (which doesn't need the bot) can help after a refusal
+        const updateBranchIndex = steps.findIndex((s, i) => i > step && s.strategy === 'update-branch');
+        if (progress.outcome === 'refused' && updateBranchIndex !== -1) {
+          await trigger(updateBranchIndex);
+          return;
+        }
+
+        emit({ type: 'rebase-finished', sha: status.headSha, method: steps[step].strategy, outcome: progress.outcome });
+        pendingRebases.delete(pr.number);
+        finish(entry, {
+          status: 'skipped',
+          rebaseStrategy: steps[step].strategy,
+          rebaseOutcome: progress.outcome,
+          reason: progress.outcome === 'refused'
+            ? `${bot.name} refused to rebase${progress.reason ? `: ${progress.reason}` : ''} (auto-merge left enabled)`
+            : `${bot.name} found nothing to rebase, but the PR is still ${status.mergeStateStatus.toLowerCase()} (auto-merge left enabled)`,
+          errorCode: progress.outcome === 'refused' ? ErrorCode.REBASE_REFUSED : ErrorCode.REBASE_NO_OP_REJECTED,
+        });
+        return;
+      }
+
+      const timedOut = Date.now() - rebaseStarted.get(pr.number)! > steps[step].timeoutMs;
+      if (timedOut && step === steps.length - 1) {
+        finish(entry, {
+          status: 'failed',
+          reason: 'Timeout waiting for rebase (auto-merge left enabled)',
+          errorCode: ErrorCode.POLLING_TIMEOUT,
+        });
+      } else if (timedOut) {
+        await trigger(step + 1);
+      }
+      return;
+    }
+
+    // A new head after a triggered rebase - remember which strategy worked
+    const rebasedFrom = pendingRebases.get(pr.number);
+    if (rebasedFrom !== undefined && rebasedFrom !== status.headSha) {
+      const strategy = options.rebaseStrategies[rebaseStep.get(pr.number) ?? 0].strategy;
+      entry.result.rebaseStrategy = strategy;
+      entry.result.rebaseOutcome = 'rebased';
+      emit({ type: 'rebase-finished', sha: status.headSha, method: strategy, outcome: 'rebased' });
+      pendingRebases.delete(pr.number);
+    }
+
+    const { requiredChecks } = await getProtection(pr.base.ref);
+    const checksStatus = await getChecksStatus(
+      client, owner, repo, status.headSha, requiredChecks, options.startingSuiteWindowMs
+    );
+    if (areChecksFailing(checksStatus, options.checks)) {
+      const { reason, errorCode } = skipForChecks({ ...entry.result }, checksStatus, options.checks);
+      finish(entry, { status: 'skipped', reason: `${reason} (auto-merge left enabled)`, errorCode });
+    }
+  };
+
+  try {
+    await poll<Map<WatchedPR, AutoMergeStatus>>(
+      async () => {
+        const statuses = new Map<WatchedPR, AutoMergeStatus>();
+        for (const entry of [...pending]) {
+          const status = await getAutoMergeStatus(client, owner, repo, entry.pr.number);
+          if (status.merged) {
+            finish(entry, { status: 'merged', sha: status.mergeCommitSha ?? undefined, headSha: status.headSha });
+          } else if (status.closed) {
+            finish(entry, { status: 'skipped', reason: 'PR was closed', errorCode: ErrorCode.PR_CLOSED });
+          } else if (!status.enabled) {
+            finish(entry, {
+              status: 'failed',
+              reason: 'Auto-merge was disabled',
+              errorCode: ErrorCode.AUTO_MERGE_DISABLED,
+            });
+          } else if (status.headSha === approvedHeads.get(entry.pr.number) || await reapprove(entry, status)) {
+            statuses.set(entry, status);
+          }
+        }
+
+        const next = pending[0];
+        if (next && statuses.has(next)) {
+          await advance(next, statuses.get(next)!);
+        }
+        return statuses;
+      },
+      {
+        ...createCICheckPollerOptions(
+          () => (pending.length === 0 ? 'done' : 'continue'),
+          (statuses, elapsed) => {
+            const states = pending
+              .filter((entry) => statuses.has(entry))
+              .map((entry) => `#${entry.pr.number} ${statuses.get(entry)!.mergeStateStatus.toLowerCase()}`);
+            spinner.text = `Auto-merge: ${states.join(', ')} (${formatDuration(elapsed)})`;
+          }
+        ),
+        operationName: 'auto-merge',
+        timeoutMs: options.autoMergeTimeoutMs,
+      }
+    );
+  } catch (error) {
+    // Timeout (or persistent API errors) - auto-merge stays enabled on GitHub
+    const reason = isGhRenovateError(error) ? error.userMessage : 'Failed to watch auto-merge';
+    const errorCode = isGhRenovateError(error) ? error.code : undefined;
+    for (const entry of [...pending]) {
+      finish(entry, { status: 'failed', reason, errorCode });
+    }
+  }
+}
+
+/**
+ * Orchestrate the auto-merge workflow for multiple PRs
+ * Enables auto-merge on every PR first, then watches them until they are merged
+ * PRs are approved with the approver client (default: the client that merges)
+ */
+export async function orchestrateAutoMerge(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  prs: PullRequest[],
+  options: Partial<OrchestratorOptions> = {},
+  onEvent?: RunEventListener,
+  resume?: ResumeState,
+  approver: GitHubClient = client
+): Promise<OrchestratorResult> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const ui = new UIController();
+  const results: MergeResultSummary[] = [...(resume?.results ?? [])];
+  const watched: WatchedPR[] = [];
+  const startTimes = new Map<number, number>(resume?.startTimes);
+
+  for (const [index, pr] of prs.entries()) {
+    ui.startPR(pr, `[${index + 1}/${prs.length}]`);
+    const emit = createPREmitter(onEvent, `${owner}/${repo}`, pr);
+    emit({ type: 'started', sha: pr.head.sha, dryRun: opts.dryRun });
+
+    if (!startTimes.has(pr.number)) {
+      startTimes.set(pr.number, Date.now());
+    }
+    const result = await enableForPR(client, approver, owner, repo, pr, ui, opts, emit);
+    result.startedAt = new Date(startTimes.get(pr.number)!).toISOString();
+
+    switch (result.status) {
+      case 'queued':
+        ui.autoMergePR(pr);
+        watched.push({ pr, result, emit });
+        continue;
+      case 'merged':
+        ui.completePR(pr, opts.dryRun);
+        emit({ type: 'merged', sha: result.sha ?? result.headSha, dryRun: opts.dryRun });
+        break;
+      case 'skipped':
+        ui.skipPR(pr, result.reason ?? 'Unknown reason');
+        emit({ type: 'skipped', reason: result.reason, errorCode: result.errorCode });
+        break;
+      case 'failed':
+        ui.failPR(pr, result.reason ?? 'Unknown error');
+        emit({ type: 'failed', reason: result.reason, errorCode: result.errorCode });
+        break;
+    }
+    result.finishedAt = new Date().toISOString();
+    result.durationMs = Date.now() - startTimes.get(pr.number)!;
+    results.push(result);
+
+    if (index < prs.length - 1) {
+      await sleep(1000);
+    }
+  }
+
+  if (watched.length > 0) {
+    await watchAutoMerge(
+      client, approver, owner, repo, watched, ui, opts, new Map(resume?.pendingRebases), new Map(resume?.rebaseMethods)
+    );
+    for (const { result } of watched) {
+      result.finishedAt = new Date().toISOString();
+      result.durationMs = Date.now() - new Date(result.startedAt!).getTime();
+      results.push(result);
+    }
+  }
+
+  return {
+    processed: results.length,
+    merged: results.filter((r) => r.status === 'merged').length,
+    skipped: results.filter((r) => r.status === 'skipped').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    results,
+    dryRun: opts.dryRun,
+  };
+}
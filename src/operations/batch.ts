@@ -0,0 +1,312 @@
+/**
+ * Multi-repository batch runs
+ * Resolves target repositories, discovers dependency bot PRs across them and
+ * runs the orchestrator once per repository
+ */
+
+import type { GitHubClient } from '../github/client.js';
+import type { PullRequest, PullRequestOverview } from '../github/types.js';
+import { loadOpenPullRequests } from '../github/pull-loader.js';
+import { evaluatePolicy } from '../policy/engine.js';
+import type { PRWithStatus } from '../cli/prompts.js';
+import { listOrganizationRepositories } from '../github/repos.js';
+import { createBotAdapters, filterBotPRs, getDependencyInfo } from '../bots/registry.js';
+import { selectPRs, hasSelectionFilter } from '../renovate/selection.js';
+import {
+  loadRepoPolicyConfig,
+  mergePolicyConfigs,
+  toEffectivePolicy,
+  type EffectivePolicy,
+  type PolicyConfig,
+} from '../utils/policy-config.js';
+import { parseRepoUrl, resolveHost, type RepoInfo } from '../utils/url-parser.js';
+import { getRepoSet } from '../utils/config.js';
+import { getGhDefaultHost, loadGhHosts } from '../utils/gh-config.js';
+import { printRepoInfo } from '../cli/ui.js';
+import { ValidationError, ErrorCode } from '../errors/types.js';
+import { orchestrateMerge, type OrchestratorResult } from './orchestrator.js';
+import { orchestrateAutoMerge } from './auto-merge.js';
+import type { RunEventListener } from './events.js';
+import type { ResumeState } from './journal.js';
+
+export interface RepoTargetArgs {
+  repoUrl?: string;
+  org?: string;
+  repos: string[];
+  repoSet?: string;
+  /** Explicit host (--host) */
+  host?: string;
+}
+
+export interface RepoPRs extends RepoInfo {
+  prs: PullRequest[];
+  /** Effective options and selection filter for this repository */
+  policy: EffectivePolicy;
+  /** Queue state when continuing an interrupted run */
+  resume?: ResumeState;
+  /** Checks, merge state and review decision per PR number (set by discovery) */
+  overviews?: Map<number, PullRequestOverview>;
+}
+
+export interface PolicyLayers {
+  /** Global defaults from the user config */
+  global: PolicyConfig;
+  /** CLI flags */
+  cli: PolicyConfig;
+}
+
+export interface RepoRunResult extends RepoInfo {
+  result: OrchestratorResult;
+}
+
+export interface BatchResult {
+  repos: RepoRunResult[];
+  combined: OrchestratorResult;
+}
+
+/**
+ * Format a repository as owner/repo
+ */
+export function formatRepo(target: RepoInfo): string {
+  return `${target.owner}/${target.repo}`;
+}
+
+/**
+ * Load a named repository set or throw if it doesn't exist
+ */
+async function loadRepoSet(name: string): Promise<string[]> {
+  const repoSet = await getRepoSet(name);
+  if (!repoSet) {
+    throw new ValidationError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Unknown repository set "${name}". Define it under "repoSets" in ~/.config/gh-renovate/config.json`
+    );
+  }
+  return repoSet;
+}
+
+/**
+ * Get all repository URLs given on the command line or via a repository set
+ */
+async function collectRepoUrls(args: RepoTargetArgs): Promise<string[]> {
+  const urls: string[] = [];
+
+  if (args.repoUrl) {
+    urls.push(args.repoUrl);
+  }
+  urls.push(...args.repos);
+  if (args.repoSet) {
+    urls.push(...await loadRepoSet(args.repoSet));
+  }
+
+  return urls;
+}
+
+/**
+ * Determine the GitHub host for the targeted repositories
+ * Without an explicit host, the host gh CLI is logged in to is used
+ */
+export async function resolveTargetHost(args: RepoTargetArgs): Promise<string> {
+  return resolveHost(await collectRepoUrls(args), args.host, getGhDefaultHost(await loadGhHosts()));
+}
+
+/**
+ * Resolve all repositories targeted by the CLI arguments (deduplicated, in order)
+ * Returns an empty list if no repository was specified
+ */
+export async function resolveRepoTargets(
+  client: GitHubClient,
+  args: RepoTargetArgs
+): Promise<RepoInfo[]> {
+  const targets = (await collectRepoUrls(args)).map((url) => parseRepoUrl(url));
+
+  if (args.org) {
+    targets.push(...await listOrganizationRepositories(client, args.org));
+  }
+
+  // Deduplicate (case-insensitive, GitHub names are)
+  const seen = new Set<string>();
+  return targets.filter((target) => {
+    const key = formatRepo(target).toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Discover dependency bot PRs (Renovate, Dependabot) in every target repository
+ * Each repository's policy file is layered between the global defaults and the CLI flags,
+ * and its selection filter is applied.
+ * Without onError, the first failing repository aborts discovery
+ */
+export async function discoverDependencyPRs(
+  client: GitHubClient,
+  targets: RepoInfo[],
+  layers: PolicyLayers,
+  onError?: (target: RepoInfo, error: unknown) => void
+): Promise<RepoPRs[]> {
+  const discovered: RepoPRs[] = [];
+
+  for (const target of targets) {
+    try {
+      const repoConfig = await loadRepoPolicyConfig(client, target.owner, target.repo);
+      const policy = toEffectivePolicy(mergePolicyConfigs(layers.global, repoConfig, layers.cli));
+
+      const overviews = await loadOpenPullRequests(
+        client, target.owner, target.repo, policy.options.startingSuiteWindowMs
+      );
+      const allPRs = overviews.map((overview) => overview.pr);
+      const bots = createBotAdapters(policy.options.bots);
+      const prs = hasSelectionFilter(policy.filter)
+        ? selectPRs(allPRs, policy.filter, bots)
+        : filterBotPRs(allPRs, bots);
+      discovered.push({
+        ...target,
+        prs,
+        policy,
+        overviews: new Map(overviews.map((overview) => [overview.pr.number, overview])),
+      });
+    } catch (error) {
+      if (!onError) {
+        throw error;
+      }
+      onError(target, error);
+    }
+  }
+
+  return discovered;
+}
+
+/**
+ * Evaluate each repository's policy rules for every discovered PR
+ * CI status and review decision come from the bulk-loaded overviews
+ */
+export function evaluatePRs(
+  discovered: RepoPRs[],
+  options: { multiRepo: boolean }
+): PRWithStatus[] {
+  const evaluated: PRWithStatus[] = [];
+
+  for (const entry of discovered) {
+    const bots = createBotAdapters(entry.policy.options.bots);
+    for (const pr of entry.prs) {
+      const overview = entry.overviews?.get(pr.number);
+      const checksStatus = overview?.checksStatus;
+      const dependency = getDependencyInfo(pr, bots);
+
+      const decision = evaluatePolicy(entry.policy.options.rules, {
+        pr,
+        dependency,
+        checksStatus,
+        checkPolicy: entry.policy.options.checks,
+      });
+
+      evaluated.push({
+        pr,
+        checksStatus,
+        checkPolicy: entry.policy.options.checks,
+        reviewDecision: overview?.reviewDecision ?? undefined,
+        dependency,
+        decision,
+        repository: options.multiRepo ? formatRepo(entry) : undefined,
+      });
+    }
+  }
+
+  return evaluated;
+}
+
+/**
+ * Combine per-repository results into a single result
+ */
+function combineResults(repoResults: RepoRunResult[]): OrchestratorResult {
+  const combined: OrchestratorResult = {
+    processed: 0,
+    merged: 0,
+    skipped: 0,
+    failed: 0,
+    results: [],
+    dryRun: repoResults.length > 0 && repoResults.every(({ result }) => result.dryRun),
+  };
+
+  for (const { result } of repoResults) {
+    combined.processed += result.processed;
+    combined.merged += result.merged;
+    combined.skipped += result.skipped;
+    combined.failed += result.failed;
+    combined.results.push(...result.results);
+  }
+
+  return combined;
+}
+
+/**
+ * Result of a run in which nothing was processed
+ */
+export function createEmptyBatchResult(dryRun: boolean): BatchResult {
+  return {
+    repos: [],
+    combined: { ...combineResults([]), dryRun },
+  };
+}
+
+/**
+ * Run the merge workflow for selected PRs across repositories, one repository at a time
+ * Each repository runs with its own effective policy options; approvals use the approver client
+ */
+export async function orchestrateBatch(
+  client: GitHubClient,
+  selections: RepoPRs[],
+  onAskContinue?: (prNumber: number, reason: string) => Promise<boolean>,
+  onEvent?: RunEventListener,
+  approver: GitHubClient = client
+): Promise<BatchResult> {
+  const active = selections.filter(
+    (selection) => selection.prs.length > 0 || (selection.resume?.results.length ?? 0) > 0
+  );
+  const multiRepo = active.length > 1;
+  const repoResults: RepoRunResult[] = [];
+
+  for (const selection of active) {
+    if (multiRepo) {
+      printRepoInfo(selection.owner, selection.repo);
+    }
+
+    const result = selection.policy.options.autoMerge
+      ? await orchestrateAutoMerge(
+          client,
+          selection.owner,
+          selection.repo,
+          selection.prs,
+          selection.policy.options,
+          onEvent,
+          selection.resume,
+          approver
+        )
+      : await orchestrateMerge(
+          client,
+          selection.owner,
+          selection.repo,
+          selection.prs,
+          selection.policy.options,
+          onAskContinue,
+          onEvent,
+          selection.resume,
+          approver
+        );
+
+    if (multiRepo) {
+      for (const summary of result.results) {
+        summary.repository = formatRepo(selection);
+      }
+    }
+
+    repoResults.push({ owner: selection.owner, repo: selection.repo, result });
+  }
+
+  return {
+    repos: repoResults,
+    combined: combineResults(repoResults),
+  };
+}
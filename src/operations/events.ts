@@ -0,0 +1,63 @@
+/**
+ * Run events - one per PR state transition
+ */
+
+import type { ErrorCode } from '../errors/types.js';
+import type { RebaseOutcome } from '../renovate/rebase.js';
+
+export type RunEventType =
+  | 'started'
+  | 'approved'
+  | 'rebase-triggered'
+  | 'rebase-finished'
+  | 'checks-passed'
+  | 'enqueued'
+  | 'auto-merge-enabled'
+  | 'merged'
+  | 'deferred'
+  | 'skipped'
+  | 'failed';
+
+export interface RunEvent {
+  type: RunEventType;
+  /** ISO timestamp */
+  timestamp: string;
+  /** owner/repo */
+  repository: string;
+  prNumber: number;
+  title: string;
+  /** Head SHA (or merge commit SHA for merged events) */
+  sha?: string;
+  /** Reason for skipped / deferred / failed */
+  reason?: string;
+  errorCode?: ErrorCode;
+  /** How the rebase was triggered */
+  method?: string;
+  /** How the rebase ended (rebase-finished): rebased, not-needed or refused */
+  outcome?: RebaseOutcome;
+  dryRun?: boolean;
+}
+
+export type RunEventListener = (event: RunEvent) => void;
+
+/** Event data supplied by the emitter (the rest is filled in per PR) */
+export type RunEventData = Omit<RunEvent, 'timestamp' | 'repository' | 'prNumber' | 'title'>;
+
+/**
+ * Create an emit function bound to a PR
+ */
+export function createPREmitter(
+  listener: RunEventListener | undefined,
+  repository: string,
+  pr: { number: number; title: string }
+): (data: RunEventData) => void {
+  return (data) => {
+    listener?.({
+      timestamp: new Date().toISOString(),
+      repository,
+      prNumber: pr.number,
+      title: pr.title,
+      ...data,
+    });
+  };
+}
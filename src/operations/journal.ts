@@ -0,0 +1,248 @@
+/**
+ * Run journal - persists every run event under ~/.config/gh-renovate/runs/
+ * so interrupted runs can be resumed with `gh-renovate resume [run-id]`
+ *
+ * Writes are synchronous on purpose: an event must be on disk before the
+ * next API call, otherwise a crash could lose it.
+ */
+
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { randomBytes } from 'node:crypto';
+import { join } from 'node:path';
+import type { MergeResultSummary } from '../cli/ui.js';
+import type { OrchestratorOptions } from './orchestrator.js';
+import type { RunEvent } from './events.js';
+import { CONFIG_DIR } from '../utils/config.js';
+import { ValidationError, ErrorCode } from '../errors/types.js';
+
+const RUNS_DIR = join(CONFIG_DIR, 'runs');
+const JOURNAL_VERSION = 1;
+
+export interface JournalRepo {
+  owner: string;
+  repo: string;
+  /** Selected PRs in merge order */
+  prNumbers: number[];
+  options: OrchestratorOptions;
+}
+
+export interface RunJournal {
+  version: number;
+  id: string;
+  host: string;
+  createdAt: string;
+  updatedAt: string;
+  completed: boolean;
+  repos: JournalRepo[];
+  events: RunEvent[];
+}
+
+/**
+ * State needed to continue a repository's run where it stopped
+ */
+export interface ResumeState {
+  /** Results of PRs that already finished */
+  results: MergeResultSummary[];
+  /** PRs that have not finished yet, in merge order */
+  remaining: number[];
+  /** PRs deferred for a retry that hasn't started yet */
+  deferred: number[];
+  /** PRs whose retry already started */
+  retried: number[];
+  /** Head SHA before a rebase that was triggered but not yet observed, per PR */
+  pendingRebases: Map<number, string>;
+  /** Strategy of the last triggered rebase, per PR (the step a pending rebase waits on) */
+  rebaseMethods: Map<number, string>;
+  /** First start time per PR (ms) */
+  startTimes: Map<number, number>;
+}
+
+/**
+ * Generate a sortable run id, e.g. 20261019-142530-3f9a
+ */
+function generateRunId(): string {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${timestamp}-${randomBytes(2).toString('hex')}`;
+}
+
+function journalPath(id: string): string {
+  return join(RUNS_DIR, `${id}.json`);
+}
+
+/**
+ * Write a journal to disk
+ */
+function saveJournal(journal: RunJournal): void {
+  journal.updatedAt = new Date().toISOString();
+  mkdirSync(RUNS_DIR, { recursive: true });
+  writeFileSync(journalPath(journal.id), JSON.stringify(journal, null, 2), 'utf-8');
+}
+
+/**
+ * Create and persist the journal for a new run
+ */
+export function createJournal(host: string, repos: JournalRepo[]): RunJournal {
+  const now = new Date().toISOString();
+  const journal: RunJournal = {
+    version: JOURNAL_VERSION,
+    id: generateRunId(),
+    host,
+    createdAt: now,
+    updatedAt: now,
+    completed: false,
+    repos,
+    events: [],
+  };
+
+  saveJournal(journal);
+  return journal;
+}
+
+/**
+ * Append an event to the journal and persist it
+ */
+export function appendJournalEvent(journal: RunJournal, event: RunEvent): void {
+  journal.events.push(event);
+  saveJournal(journal);
+}
+
+/**
+ * Mark the run as finished - it can no longer be resumed
+ */
+export function completeJournal(journal: RunJournal): void {
+  journal.completed = true;
+  saveJournal(journal);
+}
+
+/**
+ * Read a journal file, returning null if it is missing or unreadable
+ */
+function readJournal(id: string): RunJournal | null {
+  try {
+    const journal = JSON.parse(readFileSync(journalPath(id), 'utf-8')) as RunJournal;
+    return journal.version === JOURNAL_VERSION ? journal : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the journal of an interrupted run
+ * Without an id, the most recent incomplete run is used
+ */
+export function loadResumableJournal(id?: string): RunJournal {
+  if (id) {
+    const journal = readJournal(id);
+    if (!journal) {
+      throw new ValidationError(ErrorCode.INVALID_ARGUMENT, `Run "${id}" not found in ${RUNS_DIR}`);
+    }
+    if (journal.completed) {
+      throw new ValidationError(ErrorCode.INVALID_ARGUMENT, `Run "${id}" already completed.`);
+    }
+    return journal;
+  }
+
+  let ids: string[] = [];
+  try {
+    ids = readdirSync(RUNS_DIR)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length));
+  } catch {
+    // No runs directory yet
+  }
+
+  // Run ids sort chronologically
+  for (const candidate of ids.sort().reverse()) {
+    const journal = readJournal(candidate);
+    if (journal && !journal.completed) {
+      return journal;
+    }
+  }
+
+  throw new ValidationError(ErrorCode.INVALID_ARGUMENT, 'No interrupted run found to resume.');
+}
+
+/**
+ * Rebuild the queue state of one repository from the journal events
+ */
+export function rebuildResumeState(journal: RunJournal, target: JournalRepo): ResumeState {
+  const repository = `${target.owner}/${target.repo}`;
+  const events = journal.events.filter((e) => e.repository === repository);
+
+  const results: MergeResultSummary[] = [];
+  const finished = new Set<number>();
+  const deferred = new Set<number>();
+  const retried = new Set<number>();
+  const pendingRebases = new Map<number, string>();
+  const rebaseMethods = new Map<number, string>();
+  const startTimes = new Map<number, number>();
+
+  for (const event of events) {
+    const n = event.prNumber;
+
+    switch (event.type) {
+      case 'started':
+        if (!startTimes.has(n)) {
+          startTimes.set(n, new Date(event.timestamp).getTime());
+        }
+        if (deferred.delete(n)) {
+          retried.add(n);
+        }
+        break;
+      case 'rebase-triggered':
+        if (event.sha) {
+          pendingRebases.set(n, event.sha);
+        }
+        if (event.method) {
+          rebaseMethods.set(n, event.method);
+        }
+        break;
+      case 'rebase-finished':
+        pendingRebases.delete(n);
+        break;
+      case 'checks-passed':
+        // Checks on a new commit mean the rebase landed
+        if (event.sha && pendingRebases.get(n) !== event.sha) {
+          pendingRebases.delete(n);
+        }
+        break;
+      case 'deferred':
+        deferred.add(n);
+        pendingRebases.delete(n);
+        break;
+      case 'merged':
+      case 'skipped':
+      case 'failed': {
+        finished.add(n);
+        deferred.delete(n);
+        pendingRebases.delete(n);
+        const startedAt = startTimes.get(n) ?? new Date(event.timestamp).getTime();
+        const finishedAt = new Date(event.timestamp).getTime();
+        results.push({
+          prNumber: n,
+          title: event.title,
+          status: event.type,
+          reason: event.reason,
+          errorCode: event.errorCode,
+          sha: event.type === 'merged' ? event.sha : undefined,
+          startedAt: new Date(startedAt).toISOString(),
+          finishedAt: event.timestamp,
+          durationMs: finishedAt - startedAt,
+        });
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return {
+    results,
+    remaining: target.prNumbers.filter((n) => !finished.has(n)),
+    deferred: [...deferred],
+    retried: [...retried],
+    pendingRebases,
+    rebaseMethods,
+    startTimes,
+  };
+}
@@ -2,7 +2,7 @@
  * Main orchestrator for the merge workflow
  */
 
-import type { GitHubClient } from '../github/client.js';
+import { getAuthenticatedLogin, type GitHubClient } from '../github/client.js';
 import type { PullRequest, ChecksStatus, MergeMethod } from '../github/types.js';
 import { getPullRequest, mergePullRequest, validatePRState, needsRebase } from '../github/pulls.js';
 import {
@@ -10,35 +10,78 @@ import {
   areChecksPassing,
   areChecksPending,
   areChecksFailing,
+  areChecksBlocked,
   formatFailedChecks,
-  hasStabilityDaysPending,
+  formatBlockingChecks,
+  getOptionalChecksWarning,
+  DEFAULT_CHECK_POLICY,
+  DEFAULT_STARTING_SUITE_WINDOW_MS,
+  type CheckPolicy,
 } from '../github/checks.js';
-import { MergeBlockedError } from '../errors/types.js';
+import { getBranchProtection, type ReviewRequirements } from '../github/protection.js';
+import { MergeBlockedError, RenovateError, ErrorCode } from '../errors/types.js';
 import { getReviewInfo, approvePullRequest } from '../github/reviews.js';
-import { triggerRebase, hasNewCommitSince } from '../renovate/rebase.js';
-import { poll, sleep, formatDuration, createCICheckPollerOptions, createRebasePollerOptions } from '../utils/poller.js';
+import { getDefaultRebaseSteps, rebaseWithStrategies, type RebaseStep } from '../renovate/rebase.js';
+import { poll, sleep, formatDuration, createCICheckPollerOptions } from '../utils/poller.js';
 import { UIController, type MergeResultSummary } from '../cli/ui.js';
 import { isGhRenovateError } from '../errors/types.js';
+import { evaluatePolicy, type MergeRule } from '../policy/engine.js';
+import { hasMergeQueue, enqueuePullRequest, getMergeQueueStatus, type MergeQueueStatus } from '../github/merge-queue.js';
+import { createPREmitter, type RunEventData, type RunEventListener } from './events.js';
+import type { ResumeState } from './journal.js';
+import { createBotAdapters, getBotAdapter, getDependencyInfo } from '../bots/registry.js';
+import type { BotsConfig } from '../bots/adapter.js';
+import { fetchConflictGraph } from './ordering.js';
 
 export interface OrchestratorOptions {
   /** Timeout for CI checks in ms (default: 10 minutes) */
   checkTimeoutMs: number;
-  /** Timeout for rebase in ms (default: 5 minutes) */
+  /** Timeout per rebase strategy in ms, for steps without their own (default: 5 minutes) */
   rebaseTimeoutMs: number;
+  /** Rebase strategies tried in order, each with its own timeout */
+  rebaseStrategies: RebaseStep[];
   /** Merge method (default: squash) */
   mergeMethod: MergeMethod;
   /** Continue processing after a PR fails */
   continueOnError: boolean;
   /** Dry run mode - no changes will be made */
   dryRun: boolean;
+  /** Approve PRs that have no approval yet (otherwise they are skipped) */
+  autoApprove: boolean;
+  /** Merge policy rules, enforced right before merging */
+  rules: MergeRule[];
+  /** Timeout for PRs in a merge queue to be merged in ms (default: 30 minutes) */
+  mergeQueueTimeoutMs: number;
+  /** Use GitHub auto-merge instead of merging each PR (see operations/auto-merge) */
+  autoMerge: boolean;
+  /** Timeout for auto-merge PRs to be merged in ms (default: 2 hours) */
+  autoMergeTimeoutMs: number;
+  /** Which checks are ignored, waited for or blocking */
+  checks: CheckPolicy;
+  /** How long a queued check suite without runs counts as a pending check in ms (default: 45 seconds) */
+  startingSuiteWindowMs: number;
+  /** Reorder selected PRs so fewer of them need a rebase (applied before the run, see ordering) */
+  orderByConflicts: boolean;
+  /** Bot identities recognized in addition to the built-in ones */
+  bots: BotsConfig;
 }
 
-const DEFAULT_OPTIONS: OrchestratorOptions = {
+export const DEFAULT_OPTIONS: OrchestratorOptions = {
   checkTimeoutMs: 10 * 60 * 1000,
   rebaseTimeoutMs: 5 * 60 * 1000,
+  rebaseStrategies: getDefaultRebaseSteps(5 * 60 * 1000),
   mergeMethod: 'squash',
   continueOnError: true,
   dryRun: false,
+  autoApprove: true,
+  rules: [],
+  mergeQueueTimeoutMs: 30 * 60 * 1000,
+  autoMerge: false,
+  autoMergeTimeoutMs: 2 * 60 * 60 * 1000,
+  checks: DEFAULT_CHECK_POLICY,
+  startingSuiteWindowMs: DEFAULT_STARTING_SUITE_WINDOW_MS,
+  orderByConflicts: false,
+  bots: {},
 };
 
 export interface OrchestratorResult {
@@ -61,52 +104,181 @@ async function waitForChecks(
   owner: string,
   repo: string,
   sha: string,
+  requiredChecks: string[],
+  options: OrchestratorOptions,
   ui: UIController,
-  timeoutMs: number,
   statusPrefix: string = 'Waiting for CI'
 ): Promise<{ status: ChecksStatus; passed: boolean }> {
   const checksStatus = await poll<ChecksStatus>(
-    () => getChecksStatus(client, owner, repo, sha),
+    () => getChecksStatus(client, owner, repo, sha, requiredChecks, options.startingSuiteWindowMs),
     {
       ...createCICheckPollerOptions(
-        (status) => {
-          if (areChecksFailing(status)) return 'done';
-          if (areChecksPassing(status)) return 'done';
-          return 'continue';
-        },
+        (status) => (areChecksPending(status, options.checks) ? 'continue' : 'done'),
         (status, elapsed) => {
           ui.updateStatus(
             `${statusPrefix}: ${status.successful}/${status.total} passed (${formatDuration(elapsed)})`
           );
         }
       ),
-      timeoutMs,
+      timeoutMs: options.checkTimeoutMs,
     }
   );
 
   return {
     status: checksStatus,
-    passed: areChecksPassing(checksStatus),
+    passed: areChecksPassing(checksStatus, options.checks),
   };
 }
 
+/** A rebase triggered before the run was interrupted - the head SHA it was triggered on, and how */
+interface PendingRebase {
+  sha: string;
+  method?: string;
+}
+
+/**
+ * Rebase a PR through the configured strategy chain and wait until it's done
+ * A rebase triggered before the run was interrupted (pendingRebase) is only waited for, at its strategy
+ * Records the strategy and outcome on the result; returns false if the bot refused
+ */
+async function rebasePR(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  ui: UIController,
+  options: OrchestratorOptions,
+  emit: (data: RunEventData) => void,
+  result: MergeResultSummary,
+  pendingRebase?: PendingRebase
+): Promise<boolean> {
+  const resumed = pendingRebase?.sha === pr.head.sha;
+  if (resumed) {
+    ui.updateStatus('Rebase already triggered (resumed run), waiting...');
+  }
+
+  const bot = getBotAdapter(pr, createBotAdapters(options.bots));
+  const rebase = await rebaseWithStrategies(
+    client, owner, repo, pr, bot, options.rebaseStrategies,
+    (strategy) => {
+      emit({ type: 'rebase-triggered', sha: pr.head.sha, method: strategy });
+      ui.updateStatus(`Rebase triggered via ${strategy}, waiting...`);
+    },
+    (strategy, elapsed) => {
+      ui.updateStatus(`Waiting for rebase via ${strategy} (${formatDuration(elapsed)})`);
+    },
+    resumed ? pendingRebase!.method ?? options.rebaseStrategies[0].strategy : undefined
+  );
+  emit({ type: 'rebase-finished', sha: rebase.sha, method: rebase.strategy, outcome: rebase.outcome });
+
+  result.rebaseStrategy = rebase.strategy;
+  result.rebaseOutcome = rebase.outcome;
+  if (rebase.outcome === 'refused') {
+    result.status = 'skipped';
+    result.reason = `${bot.name} refused to rebase${rebase.reason ? `: ${rebase.reason}` : ''}`;
+    result.errorCode = ErrorCode.REBASE_REFUSED;
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Skip a PR because of its checks - failed gating checks, or a pending blocking check
+ */
+export function skipForChecks(
+  result: MergeResultSummary,
+  status: ChecksStatus,
+  policy: CheckPolicy,
+  context: string = ''
+): MergeResultSummary {
+  result.status = 'skipped';
+  if (areChecksBlocked(status, policy)) {
+    result.reason = `Waiting for ${formatBlockingChecks(status, policy)} (skipped)`;
+    result.errorCode = ErrorCode.MERGE_BLOCKED_PENDING_CHECKS;
+  } else {
+    result.reason = `CI checks failed${context}: ${formatFailedChecks(status, policy)}`;
+    result.errorCode = ErrorCode.PR_CHECKS_FAILED;
+  }
+  return result;
+}
+
+/**
+ * Make sure a PR is approved as its branch requires, approving it as the approver if allowed
+ * Returns false if the PR was skipped for lack of a qualifying approval
+ */
+export async function ensureApproval(
+  client: GitHubClient,
+  approver: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  requirements: ReviewRequirements,
+  ui: UIController,
+  options: OrchestratorOptions,
+  emit: (data: RunEventData) => void,
+  result: MergeResultSummary
+): Promise<boolean> {
+  ui.updateStatus('Checking review status...');
+  let reviewInfo = await getReviewInfo(client, owner, repo, pr.number, requirements, pr.base.ref);
+  if (reviewInfo.hasApproval) {
+    return true;
+  }
+
+  const skip = (reason: string): false => {
+    result.status = 'skipped';
+    result.reason = reason;
+    result.errorCode = ErrorCode.PR_NOT_APPROVED;
+    return false;
+  };
+
+  if (!options.autoApprove) {
+    return skip(reviewInfo.approvedBy.length > 0
+      ? `Approvals don't satisfy review requirements: ${reviewInfo.missingApprovals.join('; ')}`
+      : 'PR is not approved (auto-approve disabled)');
+  }
+  if (options.dryRun) {
+    ui.updateStatus('[DRY-RUN] Would approve PR...');
+    return true;
+  }
+
+  // Approve unless the approver already did and it wasn't enough
+  const login = await getAuthenticatedLogin(approver);
+  if (!reviewInfo.approvedBy.includes(login)) {
+    ui.updateStatus(`Approving PR as ${login}...`);
+    await approvePullRequest(approver, owner, repo, pr.number);
+    emit({ type: 'approved', sha: pr.head.sha });
+    reviewInfo = await getReviewInfo(client, owner, repo, pr.number, requirements, pr.base.ref);
+    if (reviewInfo.hasApproval) {
+      return true;
+    }
+  }
+
+  return skip(`Approval by ${login} doesn't satisfy review requirements: ${reviewInfo.missingApprovals.join('; ')}`);
+}
+
 /**
  * Process a single PR through the merge workflow
  * Includes fail-safe retry logic - if something goes wrong, starts over
  */
 async function processSinglePR(
   client: GitHubClient,
+  approver: GitHubClient,
   owner: string,
   repo: string,
   pr: PullRequest,
   ui: UIController,
-  options: OrchestratorOptions
+  options: OrchestratorOptions,
+  emit: (data: RunEventData) => void,
+  useMergeQueue: boolean,
+  pendingRebase?: PendingRebase
 ): Promise<MergeResultSummary> {
   const result: MergeResultSummary = {
     prNumber: pr.number,
     title: pr.title,
     status: 'failed',
   };
+  // Head SHA the bot found nothing to rebase on - never rebased again, even across retries
+  let notNeededSha: string | undefined;
 
   // Fail-safe retry loop - if anything goes wrong, start over
   for (let attempt = 1; attempt <= MAX_PROCESS_RETRIES; attempt++) {
@@ -125,94 +297,70 @@ async function processSinglePR(
       if (!validation.valid) {
         result.status = 'skipped';
         result.reason = validation.reason;
+        result.errorCode = validation.code;
         return result;
       }
 
-      // Step 3: Check CI status
+      // Step 3: Check CI status (only required checks decide)
       ui.updateStatus('Checking CI status...');
-      let checksStatus = await getChecksStatus(client, owner, repo, freshPR.head.sha);
+      const { requiredChecks, strict, reviews } = await getBranchProtection(client, owner, repo, freshPR.base.ref);
+      let checksStatus = await getChecksStatus(client, owner, repo, freshPR.head.sha, requiredChecks, options.startingSuiteWindowMs);
 
-      // If checks are failing, skip (not retriable)
-      if (areChecksFailing(checksStatus)) {
-        result.status = 'skipped';
-        result.reason = `CI checks failed: ${formatFailedChecks(checksStatus)}`;
-        return result;
-      }
-
-      // Skip PRs with stability-days pending - these need to wait
-      if (hasStabilityDaysPending(checksStatus)) {
-        result.status = 'skipped';
-        result.reason = 'Waiting for stability-days (skipped)';
-        return result;
+      // Failing checks (not retriable) and pending blocking checks (e.g. release age) skip the PR
+      if (areChecksFailing(checksStatus, options.checks) || areChecksBlocked(checksStatus, options.checks)) {
+        return skipForChecks(result, checksStatus, options.checks);
       }
 
       // If there are pending checks, wait for them
-      if (areChecksPending(checksStatus)) {
+      if (areChecksPending(checksStatus, options.checks)) {
         ui.updateStatus('Waiting for CI checks...');
         const checkResult = await waitForChecks(
-          client, owner, repo, freshPR.head.sha, ui, options.checkTimeoutMs
+          client, owner, repo, freshPR.head.sha, requiredChecks, options, ui
         );
         checksStatus = checkResult.status;
 
         if (!checkResult.passed) {
-          result.status = 'skipped';
-          result.reason = `CI checks failed: ${formatFailedChecks(checksStatus)}`;
-          return result;
+          return skipForChecks(result, checksStatus, options.checks);
         }
       }
+      emit({ type: 'checks-passed', sha: freshPR.head.sha });
 
-      // Step 4: Check approval status
-      ui.updateStatus('Checking review status...');
-      const reviewInfo = await getReviewInfo(client, owner, repo, pr.number);
-
-      if (!reviewInfo.hasApproval) {
-        if (options.dryRun) {
-          ui.updateStatus('[DRY-RUN] Would approve PR...');
-        } else {
-          ui.updateStatus('Approving PR...');
-          await approvePullRequest(client, owner, repo, pr.number);
-        }
+      // Step 4: Check approval status (approvals come from the approver identity)
+      if (!await ensureApproval(client, approver, owner, repo, freshPR, reviews, ui, options, emit, result)) {
+        return result;
       }
 
-      // Step 5: Handle rebase if needed
+      // Step 5: Handle rebase if needed (a merge queue keeps PRs up to date itself;
+      // behind PRs only need one if the branch must be up to date)
       freshPR = await getPullRequest(client, owner, repo, pr.number);
 
-      if (needsRebase(freshPR)) {
+      if (!useMergeQueue && needsRebase(freshPR, strict) && freshPR.head.sha !== notNeededSha) {
         if (options.dryRun) {
           ui.updateStatus('[DRY-RUN] Would trigger rebase...');
         } else {
           ui.updateStatus('Triggering rebase...');
-          const previousSha = freshPR.head.sha;
-          const method = await triggerRebase(client, owner, repo, freshPR);
-          ui.updateStatus(`Rebase triggered via ${method}, waiting...`);
-
-          // Wait for Renovate to push a new commit
-          await poll<{ hasNewCommit: boolean; currentSha: string }>(
-            () => hasNewCommitSince(client, owner, repo, pr.number, previousSha),
-            {
-              ...createRebasePollerOptions(
-                (pollResult) => (pollResult.hasNewCommit ? 'done' : 'continue'),
-                (_, elapsed) => {
-                  ui.updateStatus(`Waiting for rebase (${formatDuration(elapsed)})`);
-                }
-              ),
-              timeoutMs: options.rebaseTimeoutMs,
-            }
-          );
-
-          await sleep(3000);
-          freshPR = await getPullRequest(client, owner, repo, pr.number);
+          const rebased = await rebasePR(client, owner, repo, freshPR, ui, options, emit, result, pendingRebase);
+          pendingRebase = undefined;
+          if (!rebased) {
+            return result;
+          }
+          if (result.rebaseOutcome === 'not-needed') {
+            // No new commit: its checks already passed, and it isn't rebased again
+            notNeededSha = freshPR.head.sha;
+          } else {
+            await sleep(3000);
+            freshPR = await getPullRequest(client, owner, repo, pr.number);
 
-          // Wait for CI checks on the new commit
-          const checkResult = await waitForChecks(
-            client, owner, repo, freshPR.head.sha, ui, options.checkTimeoutMs, 'Waiting for CI after rebase'
-          );
-          checksStatus = checkResult.status;
+            // Wait for CI checks on the new commit
+            const checkResult = await waitForChecks(
+              client, owner, repo, freshPR.head.sha, requiredChecks, options, ui, 'Waiting for CI after rebase'
+            );
+            checksStatus = checkResult.status;
 
-          if (!checkResult.passed) {
-            result.status = 'skipped';
-            result.reason = `CI checks failed after rebase: ${formatFailedChecks(checksStatus)}`;
-            return result;
+            if (!checkResult.passed) {
+              return skipForChecks(result, checksStatus, options.checks, ' after rebase');
+            }
+            emit({ type: 'checks-passed', sha: freshPR.head.sha });
           }
         }
       }
@@ -221,48 +369,80 @@ async function processSinglePR(
       ui.updateStatus('Final merge check...');
       freshPR = await getPullRequest(client, owner, repo, pr.number);
 
-      if (needsRebase(freshPR)) {
+      if (!useMergeQueue && needsRebase(freshPR, strict) && freshPR.head.sha !== notNeededSha) {
         if (options.dryRun) {
           ui.updateStatus('[DRY-RUN] Would trigger rebase (PR is behind)...');
         } else {
           ui.updateStatus('PR is behind, triggering rebase...');
-          const previousSha = freshPR.head.sha;
-          const method = await triggerRebase(client, owner, repo, freshPR);
-          ui.updateStatus(`Rebase triggered via ${method}, waiting...`);
-
-          await poll<{ hasNewCommit: boolean; currentSha: string }>(
-            () => hasNewCommitSince(client, owner, repo, pr.number, previousSha),
-            {
-              ...createRebasePollerOptions(
-                (pollResult) => (pollResult.hasNewCommit ? 'done' : 'continue'),
-                (_, elapsed) => {
-                  ui.updateStatus(`Waiting for rebase (${formatDuration(elapsed)})`);
-                }
-              ),
-              timeoutMs: options.rebaseTimeoutMs,
+          const rebased = await rebasePR(client, owner, repo, freshPR, ui, options, emit, result, pendingRebase);
+          pendingRebase = undefined;
+          if (!rebased) {
+            return result;
+          }
+          if (result.rebaseOutcome === 'not-needed') {
+            // No new commit: its checks already passed, and it isn't rebased again
+            notNeededSha = freshPR.head.sha;
+          } else {
+            await sleep(3000);
+            freshPR = await getPullRequest(client, owner, repo, pr.number);
+
+            const checkResult = await waitForChecks(
+              client, owner, repo, freshPR.head.sha, requiredChecks, options, ui, 'Waiting for CI after rebase'
+            );
+            checksStatus = checkResult.status;
+
+            if (!checkResult.passed) {
+              return skipForChecks(result, checksStatus, options.checks, ' after rebase');
             }
-          );
+            emit({ type: 'checks-passed', sha: freshPR.head.sha });
+          }
+        }
+      }
 
-          await sleep(3000);
-          freshPR = await getPullRequest(client, owner, repo, pr.number);
+      // Step 7: Enforce merge policy on the final PR state
+      const decision = evaluatePolicy(options.rules, {
+        pr: freshPR,
+        dependency: getDependencyInfo(freshPR, createBotAdapters(options.bots)),
+        checksStatus,
+        checkPolicy: options.checks,
+      });
+      if (decision.action === 'forbid') {
+        result.status = 'skipped';
+        result.reason = `Blocked by policy: ${decision.reason}`;
+        result.errorCode = ErrorCode.POLICY_FORBIDDEN;
+        return result;
+      }
 
-          const checkResult = await waitForChecks(
-            client, owner, repo, freshPR.head.sha, ui, options.checkTimeoutMs, 'Waiting for CI after rebase'
-          );
-          checksStatus = checkResult.status;
+      // Failed optional checks don't block the merge, but are reported
+      const optionalWarning = getOptionalChecksWarning(checksStatus, options.checks);
+      result.warnings = optionalWarning ? [optionalWarning] : undefined;
 
-          if (!checkResult.passed) {
-            result.status = 'skipped';
-            result.reason = `CI checks failed after rebase: ${formatFailedChecks(checksStatus)}`;
-            return result;
-          }
+      // Step 8a: Merge queue - enqueue, the outcome is tracked after all PRs are processed
+      if (useMergeQueue) {
+        result.headSha = freshPR.head.sha;
+
+        if (options.dryRun) {
+          ui.updateStatus('[DRY-RUN] Would add PR to merge queue...');
+          result.status = 'merged';
+          return result;
         }
+
+        const queueStatus = await getMergeQueueStatus(client, owner, repo, pr.number);
+        if (!queueStatus.inQueue) {
+          ui.updateStatus('Adding to merge queue...');
+          await enqueuePullRequest(client, freshPR.nodeId, freshPR.head.sha);
+          emit({ type: 'enqueued', sha: freshPR.head.sha });
+        }
+
+        result.status = 'queued';
+        return result;
       }
 
-      // Step 7: Merge with retry logic for late-starting checks
+      // Step 8b: Merge with retry logic for late-starting checks
       if (options.dryRun) {
         ui.updateStatus('[DRY-RUN] Would merge PR...');
         result.status = 'merged';
+        result.headSha = freshPR.head.sha;
         return result;
       }
 
@@ -272,10 +452,12 @@ async function processSinglePR(
         ui.updateStatus(mergeAttempt > 1 ? `Merging (attempt ${mergeAttempt})...` : 'Merging...');
 
         try {
-          await mergePullRequest(client, owner, repo, pr.number, {
+          const mergeResult = await mergePullRequest(client, owner, repo, pr.number, {
             mergeMethod: options.mergeMethod,
           });
           result.status = 'merged';
+          result.sha = mergeResult.sha;
+          result.headSha = freshPR.head.sha;
           return result;
         } catch (mergeError) {
           if (mergeError instanceof MergeBlockedError) {
@@ -293,35 +475,38 @@ async function processSinglePR(
             if (freshPR.state === 'closed') {
               result.status = 'skipped';
               result.reason = 'PR was closed';
+              result.errorCode = ErrorCode.PR_CLOSED;
               return result;
             }
 
-            checksStatus = await getChecksStatus(client, owner, repo, freshPR.head.sha);
+            checksStatus = await getChecksStatus(client, owner, repo, freshPR.head.sha, requiredChecks, options.startingSuiteWindowMs);
 
-            // If stability-days appeared, skip
-            if (hasStabilityDaysPending(checksStatus)) {
-              result.status = 'skipped';
-              result.reason = 'Waiting for stability-days (skipped)';
-              return result;
+            // If a blocking check (e.g. release age) appeared, skip
+            if (areChecksBlocked(checksStatus, options.checks)) {
+              return skipForChecks(result, checksStatus, options.checks);
             }
 
             // Check for new pending checks
-            if (areChecksPending(checksStatus)) {
+            if (areChecksPending(checksStatus, options.checks)) {
               ui.updateStatus('New checks detected, waiting...');
               const checkResult = await waitForChecks(
-                client, owner, repo, freshPR.head.sha, ui, options.checkTimeoutMs, 'Waiting for late checks'
+                client, owner, repo, freshPR.head.sha, requiredChecks, options, ui, 'Waiting for late checks'
               );
 
               if (!checkResult.passed) {
-                result.status = 'skipped';
-                result.reason = `CI checks failed: ${formatFailedChecks(checkResult.status)}`;
-                return result;
+                return skipForChecks(result, checkResult.status, options.checks);
               }
               continue; // Retry merge
             }
 
-            // Check if PR needs rebase now
-            if (needsRebase(freshPR)) {
+            // Check if PR needs rebase now - unless the bot already found nothing to rebase
+            if (needsRebase(freshPR, strict) && freshPR.head.sha === notNeededSha) {
+              throw new RenovateError(
+                ErrorCode.REBASE_NO_OP_REJECTED,
+                `Merge rejected: the PR is still ${freshPR.mergeableState}, but the bot found nothing to rebase`
+              );
+            }
+            if (needsRebase(freshPR, strict)) {
               // Throw to trigger outer retry loop - start from beginning
               throw new Error('PR needs rebase after merge attempt');
             }
@@ -349,6 +534,7 @@ async function processSinglePR(
       result.status = 'failed';
       if (isGhRenovateError(error)) {
         result.reason = error.userMessage;
+        result.errorCode = error.code;
       } else if (error instanceof Error) {
         result.reason = error.message;
       } else {
@@ -361,6 +547,176 @@ async function processSinglePR(
   return result;
 }
 
+interface QueuedPR {
+  pr: PullRequest;
+  result: MergeResultSummary;
+  emit: (data: RunEventData) => void;
+}
+
+/**
+ * Track PRs in the merge queue until each is merged or removed
+ * Resolves the results of the tracked PRs (status is no longer 'queued')
+ */
+async function trackMergeQueue(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  queued: QueuedPR[],
+  ui: UIController,
+  timeoutMs: number
+): Promise<void> {
+  const pending = new Map(queued.map((entry) => [entry.pr.number, entry]));
+  const spinner = ui.currentSpinner;
+  spinner.start(`Waiting for ${pending.size} PR(s) in the merge queue...`);
+
+  const resolve = (entry: QueuedPR, status: MergeQueueStatus): void => {
+    const { pr, result, emit } = entry;
+    pending.delete(pr.number);
+
+    if (status.merged) {
+      result.status = 'merged';
+      result.sha = status.mergeCommitSha ?? undefined;
+      ui.success(`#${pr.number}: Merged via merge queue`);
+      emit({ type: 'merged', sha: result.sha ?? result.headSha });
+    } else if (status.closed) {
+      result.status = 'skipped';
+      result.reason = 'PR was closed';
+      result.errorCode = ErrorCode.PR_CLOSED;
+      ui.warn(`#${pr.number}: Closed while in merge queue`);
+      emit({ type: 'skipped', reason: result.reason, errorCode: result.errorCode });
+    } else {
+      result.status = 'failed';
+      result.reason = 'Removed from merge queue (checks failed or conflict)';
+      result.errorCode = ErrorCode.MERGE_QUEUE_REMOVED;
+      ui.error(`#${pr.number}: ${result.reason}`);
+      emit({ type: 'failed', reason: result.reason, errorCode: result.errorCode });
+    }
+
+    if (pending.size > 0) {
+      spinner.start(`Waiting for ${pending.size} PR(s) in the merge queue...`);
+    }
+  };
+
+  try {
+    await poll<Array<{ entry: QueuedPR; status: MergeQueueStatus }>>(
+      async () => {
+        const statuses = [];
+        for (const entry of pending.values()) {
+          statuses.push({ entry, status: await getMergeQueueStatus(client, owner, repo, entry.pr.number) });
+        }
+        return statuses;
+      },
+      {
+        ...createCICheckPollerOptions(
+          (statuses) => {
+            for (const { entry, status } of statuses) {
+              if (!status.inQueue) {
+                resolve(entry, status);
+              }
+            }
+            return pending.size === 0 ? 'done' : 'continue';
+          },
+          (statuses, elapsed) => {
+            const positions = statuses
+              .filter(({ status }) => status.inQueue)
+              .map(({ entry, status }) => `#${entry.pr.number} pos ${status.position} (${status.state})`);
+            spinner.text = `Merge queue: ${positions.join(', ')} (${formatDuration(elapsed)})`;
+          }
+        ),
+        operationName: 'merge queue',
+        timeoutMs,
+      }
+    );
+  } catch (error) {
+    // Timeout (or persistent API errors) - everything still pending fails
+    const reason = isGhRenovateError(error) ? error.userMessage : 'Failed to track merge queue';
+    for (const { pr, result, emit } of pending.values()) {
+      result.status = 'failed';
+      result.reason = reason;
+      result.errorCode = isGhRenovateError(error) ? error.code : undefined;
+      ui.error(`#${pr.number}: ${reason}`);
+      emit({ type: 'failed', reason, errorCode: result.errorCode });
+    }
+    pending.clear();
+  }
+}
+
+/**
+ * Check if the PRs can take the parallel fast path: no base branch requires up-to-date
+ * branches or uses a merge queue, and no two PRs change the same file, so merging one
+ * never makes another need a rebase
+ * Returns the required checks per base branch if so
+ */
+async function getFastPathChecks(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  prs: PullRequest[],
+  mergeQueueByBranch: Map<string, boolean>
+): Promise<Map<string, string[]> | null> {
+  const requiredChecks = new Map<string, string[]>();
+  for (const branch of new Set(prs.map((pr) => pr.base.ref))) {
+    const protection = await getBranchProtection(client, owner, repo, branch);
+    if (!mergeQueueByBranch.has(branch)) {
+      mergeQueueByBranch.set(branch, await hasMergeQueue(client, owner, repo, branch));
+    }
+    if (protection.strict || mergeQueueByBranch.get(branch)) {
+      return null;
+    }
+    requiredChecks.set(branch, protection.requiredChecks);
+  }
+
+  const graph = await fetchConflictGraph(client, owner, repo, prs);
+  return graph.sharedFiles.size === 0 ? requiredChecks : null;
+}
+
+/**
+ * Wait for the CI of all PRs at once (fast path), the merge loop then finds the checks done
+ * Checks still pending after the timeout are left to the merge loop
+ */
+async function waitForChecksInParallel(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  prs: PullRequest[],
+  requiredChecks: Map<string, string[]>,
+  ui: UIController,
+  options: OrchestratorOptions
+): Promise<void> {
+  const pending = new Set(prs);
+  const spinner = ui.currentSpinner;
+  spinner.start(`Fast path: waiting for CI of ${pending.size} PR(s) in parallel...`);
+
+  try {
+    await poll<number>(
+      async () => {
+        for (const pr of [...pending]) {
+          const status = await getChecksStatus(
+            client, owner, repo, pr.head.sha, requiredChecks.get(pr.base.ref), options.startingSuiteWindowMs
+          );
+          if (!areChecksPending(status, options.checks)) {
+            pending.delete(pr);
+          }
+        }
+        return pending.size;
+      },
+      {
+        ...createCICheckPollerOptions(
+          (count) => (count === 0 ? 'done' : 'continue'),
+          (count, elapsed) => {
+            spinner.text = `Fast path: waiting for CI of ${count} PR(s) in parallel (${formatDuration(elapsed)})`;
+          }
+        ),
+        timeoutMs: options.checkTimeoutMs,
+      }
+    );
+  } catch {
+    // Timeout - the merge loop waits for (or skips) the remaining PRs one by one
+  }
+
+  spinner.stop();
+}
+
 /**
  * Reasons that allow a PR to be retried later
  */
@@ -379,6 +735,7 @@ function isRetriableReason(reason: string | undefined): boolean {
 
 /**
  * Orchestrate the merge workflow for multiple PRs
+ * PRs are approved with the approver client (default: the client that merges)
  */
 export async function orchestrateMerge(
   client: GitHubClient,
@@ -386,18 +743,56 @@ export async function orchestrateMerge(
   repo: string,
   prs: PullRequest[],
   options: Partial<OrchestratorOptions> = {},
-  _onAskContinue?: (prNumber: number, reason: string) => Promise<boolean>
+  onAskContinue?: (prNumber: number, reason: string) => Promise<boolean>,
+  onEvent?: RunEventListener,
+  resume?: ResumeState,
+  approver: GitHubClient = client
 ): Promise<OrchestratorResult> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
   const ui = new UIController();
-  const results: MergeResultSummary[] = [];
+  const results: MergeResultSummary[] = [...(resume?.results ?? [])];
+
+  // PRs added to a merge queue, tracked after the main loop
+  const queuedPRs: QueuedPR[] = [];
+  // Whether a base branch uses a merge queue (looked up once per branch)
+  const mergeQueueByBranch = new Map<string, boolean>();
+
+  // First start time per PR (deferred PRs are processed more than once)
+  const startTimes = new Map<number, number>(resume?.startTimes);
+  // Rebases triggered before a resumed run was interrupted
+  const pendingRebases = new Map<number, string>(resume?.pendingRebases);
+  const rebaseMethods = new Map<number, string>(resume?.rebaseMethods);
 
   // Track PRs to retry and which have already been retried
-  const deferredPRs: PullRequest[] = [];
-  const retriedPRNumbers = new Set<number>();
+  const resumedDeferred = new Set(resume?.deferred);
+  const deferredPRs: PullRequest[] = prs.filter((pr) => resumedDeferred.has(pr.number));
+  const retriedPRNumbers = new Set<number>(resume?.retried);
 
   // Process all PRs
-  const allPRs = [...prs];
+  const allPRs = prs.filter((pr) => !resumedDeferred.has(pr.number));
+
+  // Move deferred PRs to the queue for their retry
+  const retryDeferred = (): void => {
+    console.log(`\n🔄 Retrying ${deferredPRs.length} deferred PR(s)...\n`);
+    for (const deferred of deferredPRs) {
+      retriedPRNumbers.add(deferred.number);
+      allPRs.push(deferred);
+    }
+    deferredPRs.length = 0; // Clear deferred list
+  };
+
+  // A resumed run may only have deferred PRs left
+  if (allPRs.length === 0 && deferredPRs.length > 0) {
+    retryDeferred();
+  }
+
+  // Fast path: if merges can't make other PRs need a rebase, wait for all CI runs at once
+  if (allPRs.length > 1) {
+    const fastPathChecks = await getFastPathChecks(client, owner, repo, allPRs, mergeQueueByBranch);
+    if (fastPathChecks) {
+      await waitForChecksInParallel(client, owner, repo, allPRs, fastPathChecks, ui, opts);
+    }
+  }
 
   while (allPRs.length > 0) {
     const pr = allPRs.shift()!;
@@ -407,13 +802,40 @@ export async function orchestrateMerge(
     const position = isRetry ? `[retry]` : `[${processedCount}/${prs.length}]`;
 
     ui.startPR(pr, position);
+    const emit = createPREmitter(onEvent, `${owner}/${repo}`, pr);
+    emit({ type: 'started', sha: pr.head.sha, dryRun: opts.dryRun });
+
+    if (!startTimes.has(pr.number)) {
+      startTimes.set(pr.number, Date.now());
+    }
+
+    if (!mergeQueueByBranch.has(pr.base.ref)) {
+      mergeQueueByBranch.set(pr.base.ref, await hasMergeQueue(client, owner, repo, pr.base.ref));
+    }
+    const useMergeQueue = mergeQueueByBranch.get(pr.base.ref)!;
+
+    const pendingSha = pendingRebases.get(pr.number);
+    const result = await processSinglePR(
+      client, approver, owner, repo, pr, ui, opts, emit, useMergeQueue,
+      pendingSha !== undefined ? { sha: pendingSha, method: rebaseMethods.get(pr.number) } : undefined
+    );
+    pendingRebases.delete(pr.number);
 
-    const result = await processSinglePR(client, owner, repo, pr, ui, opts);
+    const startedAt = startTimes.get(pr.number)!;
+    const finishedAt = Date.now();
+    result.startedAt = new Date(startedAt).toISOString();
+    result.finishedAt = new Date(finishedAt).toISOString();
+    result.durationMs = finishedAt - startedAt;
 
     // Update UI based on result
     switch (result.status) {
+      case 'queued':
+        ui.queuePR(pr);
+        queuedPRs.push({ pr, result, emit });
+        break;
       case 'merged':
         ui.completePR(pr, opts.dryRun);
+        emit({ type: 'merged', sha: result.sha ?? result.headSha, dryRun: opts.dryRun });
         results.push(result);
         break;
       case 'skipped':
@@ -421,6 +843,7 @@ export async function orchestrateMerge(
         // Check if this PR can be retried later
         if (!isRetry && isRetriableReason(result.reason)) {
           ui.deferPR(pr, result.reason ?? 'Unknown reason');
+          emit({ type: 'deferred', reason: result.reason, errorCode: result.errorCode });
           deferredPRs.push(pr);
         } else {
           if (result.status === 'skipped') {
@@ -428,7 +851,19 @@ export async function orchestrateMerge(
           } else {
             ui.failPR(pr, result.reason ?? 'Unknown error');
           }
+          emit({ type: result.status, reason: result.reason, errorCode: result.errorCode });
           results.push(result);
+
+          // Stop unless configured (or told) to continue after failures
+          if (result.status === 'failed' && !opts.continueOnError) {
+            const shouldContinue = onAskContinue
+              ? await onAskContinue(pr.number, result.reason ?? 'Unknown error')
+              : false;
+            if (!shouldContinue) {
+              allPRs.length = 0;
+              deferredPRs.length = 0;
+            }
+          }
         }
         break;
     }
@@ -440,12 +875,17 @@ export async function orchestrateMerge(
 
     // If we've processed all original PRs, add deferred ones for retry
     if (allPRs.length === 0 && deferredPRs.length > 0) {
-      console.log(`\n🔄 Retrying ${deferredPRs.length} deferred PR(s)...\n`);
-      for (const deferred of deferredPRs) {
-        retriedPRNumbers.add(deferred.number);
-        allPRs.push(deferred);
-      }
-      deferredPRs.length = 0; // Clear deferred list
+      retryDeferred();
+    }
+  }
+
+  // Wait for the merge queue to merge (or drop) the enqueued PRs
+  if (queuedPRs.length > 0) {
+    await trackMergeQueue(client, owner, repo, queuedPRs, ui, opts.mergeQueueTimeoutMs);
+    for (const { result } of queuedPRs) {
+      result.finishedAt = new Date().toISOString();
+      result.durationMs = Date.now() - new Date(result.startedAt!).getTime();
+      results.push(result);
     }
   }
 
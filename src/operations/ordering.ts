@@ -0,0 +1,131 @@
+/**
+ * Conflict-aware merge ordering
+ *
+ * PRs changing the same file (typically a lock file) conflict: once one of them is merged,
+ * the others need a bot rebase and a new CI run. Merging PRs with disjoint files first
+ * and conflict-heavy ones last keeps the number of rebases low.
+ */
+
+import type { GitHubClient } from '../github/client.js';
+import type { PullRequest } from '../github/types.js';
+import { listPullRequestFiles } from '../github/pulls.js';
+
+/** Conflicting PR numbers per PR number, and the shared files causing them */
+export interface ConflictGraph {
+  conflicts: Map<number, Set<number>>;
+  /** Files changed by more than one PR, with the PRs changing them */
+  sharedFiles: Map<string, number[]>;
+}
+
+export interface OrderSuggestion {
+  /** Suggested merge order */
+  order: PullRequest[];
+  /** Predicted rebases when merging in the given order */
+  predictedRebases: number;
+  /** Predicted rebases when merging in the suggested order */
+  suggestedRebases: number;
+}
+
+/**
+ * Build the conflict graph of PRs from their changed files
+ */
+export function buildConflictGraph(filesByPR: Map<number, string[]>): ConflictGraph {
+  const prsByFile = new Map<string, number[]>();
+  for (const [prNumber, files] of filesByPR) {
+    for (const file of files) {
+      prsByFile.set(file, [...(prsByFile.get(file) ?? []), prNumber]);
+    }
+  }
+
+  const conflicts = new Map<number, Set<number>>();
+  for (const prNumber of filesByPR.keys()) {
+    conflicts.set(prNumber, new Set());
+  }
+
+  const sharedFiles = new Map<string, number[]>();
+  for (const [file, prNumbers] of prsByFile) {
+    if (prNumbers.length < 2) {
+      continue;
+    }
+    sharedFiles.set(file, prNumbers);
+    for (const a of prNumbers) {
+      for (const b of prNumbers) {
+        if (a !== b) {
+          conflicts.get(a)!.add(b);
+        }
+      }
+    }
+  }
+
+  return { conflicts, sharedFiles };
+}
+
+/**
+ * Fetch the changed files of the PRs and build their conflict graph
+ */
+export async function fetchConflictGraph(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  prs: PullRequest[]
+): Promise<ConflictGraph> {
+  const filesByPR = new Map<number, string[]>();
+  for (const pr of prs) {
+    filesByPR.set(pr.number, await listPullRequestFiles(client, owner, repo, pr.number));
+  }
+  return buildConflictGraph(filesByPR);
+}
+
+/**
+ * Find the PRs predicted to need a rebase when merging in this order
+ * A PR needs one if it conflicts with a PR merged before it (rebases happen right before merging)
+ */
+export function findRebasedPRs(order: PullRequest[], graph: ConflictGraph): PullRequest[] {
+  const merged = new Set<number>();
+  const rebased: PullRequest[] = [];
+
+  for (const pr of order) {
+    const conflicts = graph.conflicts.get(pr.number);
+    if (conflicts && [...conflicts].some((other) => merged.has(other))) {
+      rebased.push(pr);
+    }
+    merged.add(pr.number);
+  }
+
+  return rebased;
+}
+
+/**
+ * Order PRs to minimize rebases: a set of mutually disjoint PRs first (fewest conflicts
+ * preferred), then the rest by number of conflicts. Ties keep the given order.
+ */
+export function orderByConflicts(prs: PullRequest[], graph: ConflictGraph): PullRequest[] {
+  const degree = (pr: PullRequest): number => graph.conflicts.get(pr.number)?.size ?? 0;
+  // Array.prototype.sort is stable, so equal degrees keep the selection order
+  const byDegree = [...prs].sort((a, b) => degree(a) - degree(b));
+
+  const disjoint: PullRequest[] = [];
+  const rest: PullRequest[] = [];
+  for (const pr of byDegree) {
+    const conflicts = graph.conflicts.get(pr.number);
+    if (disjoint.some((other) => conflicts?.has(other.number))) {
+      rest.push(pr);
+    } else {
+      disjoint.push(pr);
+    }
+  }
+
+  return [...disjoint, ...rest];
+}
+
+/**
+ * Suggest a conflict-aware order for PRs of one repository
+ */
+export function suggestOrder(prs: PullRequest[], graph: ConflictGraph): OrderSuggestion {
+  const order = orderByConflicts(prs, graph);
+  return {
+    order,
+    predictedRebases: findRebasedPRs(prs, graph).length,
+    suggestedRebases: findRebasedPRs(order, graph).length,
+  };
+}
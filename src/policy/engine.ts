@@ -0,0 +1,255 @@
+/**
+ * Declarative merge policy engine
+ *
+ * Rules are evaluated in order, the first rule whose conditions match decides:
+ *   - "auto-select": PR is pre-selected (and merged in headless mode)
+ *   - "allow":       PR can be selected manually
+ *   - "forbid":      PR is locked out and never merged
+ * PRs matching no rule are allowed. Requirements (minAgeDays, requireChecksPassing)
+ * of the matching rule turn the decision into "forbid" while they are not met.
+ */
+
+import type { ChecksStatus, PullRequest } from '../github/types.js';
+import { isGroupUpdate, type DependencyInfo } from '../renovate/detector.js';
+import { UPDATE_TYPES, type UpdateType } from '../renovate/selection.js';
+import { getEffectiveChecksState, type CheckPolicy } from '../github/checks.js';
+import { matchesGlob } from '../utils/glob.js';
+
+export type RuleAction = 'auto-select' | 'allow' | 'forbid';
+
+export const RULE_ACTIONS: RuleAction[] = ['auto-select', 'allow', 'forbid'];
+
+export interface RuleMatch {
+  /** Update types the rule applies to */
+  updateTypes?: UpdateType[];
+  /** Package name globs the rule applies to */
+  packages?: string[];
+  /** Labels (any of) the rule applies to */
+  labels?: string[];
+  /** Base branch globs the rule applies to */
+  baseBranches?: string[];
+  /** Dependency types (from the PR body) the rule applies to, e.g. devDependencies */
+  depTypes?: string[];
+}
+
+export interface MergeRule {
+  /** Optional name shown in decisions */
+  name?: string;
+  match: RuleMatch;
+  action: RuleAction;
+  /** Human-readable reason (shown for forbidden PRs) */
+  reason?: string;
+  /** Minimum PR age in days before it may be merged */
+  minAgeDays?: number;
+  /** Only merge if CI checks have passed */
+  requireChecksPassing?: boolean;
+}
+
+export interface PolicyContext {
+  pr: PullRequest;
+  dependency: DependencyInfo;
+  /** Current CI status, if known */
+  checksStatus?: ChecksStatus;
+  /** Which checks count (default: DEFAULT_CHECK_POLICY) */
+  checkPolicy?: CheckPolicy;
+  /** Evaluation time (default: now) */
+  now?: Date;
+}
+
+export interface PolicyDecision {
+  action: RuleAction;
+  /** Why the PR got this decision */
+  reason?: string;
+  /** Name (or index) of the deciding rule, undefined if no rule matched */
+  rule?: string;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Describe a rule for messages
+ */
+function ruleLabel(rule: MergeRule, index: number): string {
+  return rule.name ?? `rule #${index + 1}`;
+}
+
+/**
+ * Check if all conditions of a rule's match block apply to the PR
+ */
+function matchesRule(match: RuleMatch, context: PolicyContext): boolean {
+  const { pr, dependency } = context;
+
+  if (match.updateTypes && !match.updateTypes.includes(dependency.updateType)) {
+    return false;
+  }
+
+  if (match.packages) {
+    const packageName = dependency.packageName;
+    if (!packageName || !match.packages.some((glob) => matchesGlob(packageName, glob))) {
+      return false;
+    }
+  }
+
+  if (match.labels) {
+    const prLabels = pr.labels.map((l) => l.name.toLowerCase());
+    if (!match.labels.some((label) => prLabels.includes(label.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  if (match.baseBranches && !match.baseBranches.some((glob) => matchesGlob(pr.base.ref, glob))) {
+    return false;
+  }
+
+  if (match.depTypes) {
+    const depType = dependency.depType?.toLowerCase();
+    if (!depType || !match.depTypes.some((type) => type.toLowerCase() === depType)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Get the age of a PR in days
+ */
+function getAgeDays(pr: PullRequest, now: Date): number {
+  return (now.getTime() - new Date(pr.createdAt).getTime()) / MS_PER_DAY;
+}
+
+/** Actions from least to most restrictive */
+const ACTION_STRICTNESS: RuleAction[] = ['auto-select', 'allow', 'forbid'];
+
+/**
+ * Evaluate the rules for a PR
+ * Group PRs are evaluated per package, the most restrictive decision wins
+ */
+export function evaluatePolicy(rules: MergeRule[], context: PolicyContext): PolicyDecision {
+  const { dependency } = context;
+  if (!isGroupUpdate(dependency)) {
+    return evaluateRules(rules, context);
+  }
+
+  let result: PolicyDecision | undefined;
+  for (const update of dependency.packages) {
+    const decision = evaluateRules(rules, {
+      ...context,
+      dependency: { ...update, packages: [update] },
+    });
+    if (!result || ACTION_STRICTNESS.indexOf(decision.action) > ACTION_STRICTNESS.indexOf(result.action)) {
+      result = decision.action === 'forbid'
+        ? { ...decision, reason: `${update.packageName}: ${decision.reason}` }
+        : decision;
+    }
+  }
+  return result!;
+}
+
+/**
+ * Evaluate the rules for a single-package dependency
+ */
+function evaluateRules(rules: MergeRule[], context: PolicyContext): PolicyDecision {
+  const now = context.now ?? new Date();
+
+  for (const [index, rule] of rules.entries()) {
+    if (!matchesRule(rule.match, context)) {
+      continue;
+    }
+
+    const label = ruleLabel(rule, index);
+
+    if (rule.action === 'forbid') {
+      return { action: 'forbid', reason: rule.reason ?? `Forbidden by ${label}`, rule: label };
+    }
+
+    if (rule.minAgeDays !== undefined) {
+      const ageDays = getAgeDays(context.pr, now);
+      if (ageDays < rule.minAgeDays) {
+        return {
+          action: 'forbid',
+          reason: `Too new (${Math.floor(ageDays)}d old, ${label} requires ${rule.minAgeDays}d)`,
+          rule: label,
+        };
+      }
+    }
+
+    if (rule.requireChecksPassing && context.checksStatus) {
+      if (getEffectiveChecksState(context.checksStatus, context.checkPolicy) !== 'success') {
+        return { action: 'forbid', reason: `CI checks not passing (required by ${label})`, rule: label };
+      }
+    }
+
+    return { action: rule.action, reason: rule.reason, rule: label };
+  }
+
+  return { action: 'allow' };
+}
+
+/**
+ * Validate raw rules from a configuration file, returning a list of issues
+ */
+export function validateMergeRules(value: unknown, key: string): string[] {
+  if (!Array.isArray(value)) {
+    return [`"${key}" must be an array of rules`];
+  }
+
+  const issues: string[] = [];
+  const isStringArray = (v: unknown): boolean =>
+    Array.isArray(v) && v.every((item) => typeof item === 'string');
+
+  value.forEach((rule: unknown, index) => {
+    const at = `${key}[${index}]`;
+
+    if (rule === null || typeof rule !== 'object' || Array.isArray(rule)) {
+      issues.push(`"${at}" must be an object`);
+      return;
+    }
+
+    const r = rule as Record<string, unknown>;
+    const allowedKeys = ['name', 'match', 'action', 'reason', 'minAgeDays', 'requireChecksPassing'];
+    for (const k of Object.keys(r)) {
+      if (!allowedKeys.includes(k)) {
+        issues.push(`"${at}" has unknown option "${k}" (allowed: ${allowedKeys.join(', ')})`);
+      }
+    }
+
+    if (!RULE_ACTIONS.includes(r.action as RuleAction)) {
+      issues.push(`"${at}.action" must be one of: ${RULE_ACTIONS.join(', ')}`);
+    }
+    if (r.name !== undefined && typeof r.name !== 'string') {
+      issues.push(`"${at}.name" must be a string`);
+    }
+    if (r.reason !== undefined && typeof r.reason !== 'string') {
+      issues.push(`"${at}.reason" must be a string`);
+    }
+    if (r.minAgeDays !== undefined && (typeof r.minAgeDays !== 'number' || r.minAgeDays < 0)) {
+      issues.push(`"${at}.minAgeDays" must be a non-negative number`);
+    }
+    if (r.requireChecksPassing !== undefined && typeof r.requireChecksPassing !== 'boolean') {
+      issues.push(`"${at}.requireChecksPassing" must be true or false`);
+    }
+
+    if (r.match === null || typeof r.match !== 'object' || Array.isArray(r.match)) {
+      issues.push(`"${at}.match" must be an object`);
+      return;
+    }
+
+    const match = r.match as Record<string, unknown>;
+    const matchKeys = ['updateTypes', 'packages', 'labels', 'baseBranches', 'depTypes'];
+    for (const [k, v] of Object.entries(match)) {
+      if (!matchKeys.includes(k)) {
+        issues.push(`"${at}.match" has unknown condition "${k}" (allowed: ${matchKeys.join(', ')})`);
+      } else if (!isStringArray(v)) {
+        issues.push(`"${at}.match.${k}" must be an array of strings`);
+      } else if (k === 'updateTypes') {
+        const invalid = (v as string[]).filter((t) => !UPDATE_TYPES.includes(t as UpdateType));
+        if (invalid.length > 0) {
+          issues.push(`"${at}.match.updateTypes" contains invalid value(s) ${invalid.join(', ')} (allowed: ${UPDATE_TYPES.join(', ')})`);
+        }
+      }
+    }
+  });
+
+  return issues;
+}
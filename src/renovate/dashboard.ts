@@ -0,0 +1,178 @@
+/**
+ * Renovate Dependency Dashboard - parsing and ticking its checkboxes
+ * Like triggerRebase, actions are requested by checking a checkbox in the issue body
+ */
+
+import type { GitHubClient } from '../github/client.js';
+
+export interface DashboardEntry {
+  /** Section heading the entry is listed under */
+  section: string;
+  /** Action marker, e.g. approve-branch, unlimit-branch, retry-branch, rebase-branch */
+  action: string;
+  /** Branch the action applies to (global actions have none) */
+  branch?: string;
+  /** Entry text without markdown */
+  title: string;
+  /** PR number for entries that link a PR */
+  prNumber?: number;
+  checked: boolean;
+}
+
+export interface DependencyDashboard {
+  issueNumber: number;
+  title: string;
+  htmlUrl: string;
+  entries: DashboardEntry[];
+}
+
+/** `- [ ] <!-- action=branch -->text` (the branch is optional, some actions contain a space: `manual job`) */
+const ENTRY_PATTERN = /^\s*- \[( |x)\] <!-- ([a-z-]+(?: [a-z-]+)*)(?:=(\S+))? -->(.*)$/i;
+
+const SECTION_PATTERN = /^#{2,3}\s+(.+?)\s*$/;
+
+/**
+ * Strip markdown (links, emphasis) from an entry text
+ */
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '')
+    .trim();
+}
+
+/**
+ * Parse the checkbox entries of a Dependency Dashboard issue body
+ */
+export function parseDashboard(body: string): DashboardEntry[] {
+  const entries: DashboardEntry[] = [];
+  let section = '';
+
+  for (const line of body.split('\n')) {
+    const heading = SECTION_PATTERN.exec(line);
+    if (heading) {
+      section = stripMarkdown(heading[1]);
+      continue;
+    }
+
+    const match = ENTRY_PATTERN.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const [, box, action, branch, text] = match;
+    const prMatch = /\/pull\/(\d+)/.exec(text);
+    entries.push({
+      section,
+      action: action.toLowerCase(),
+      branch,
+      title: stripMarkdown(text),
+      prNumber: prMatch ? Number(prMatch[1]) : undefined,
+      checked: box.toLowerCase() === 'x',
+    });
+  }
+
+  return entries;
+}
+
+/** What ticking an entry asks Renovate to do, by action marker */
+const ACTION_LABELS: Record<string, string> = {
+  'approve-branch': 'approve',
+  'approvepr-branch': 'create PR',
+  'unlimit-branch': 'create now',
+  'retry-branch': 'retry',
+  'rebase-branch': 'rebase',
+  'recreate-branch': 'recreate',
+  'approve-all-pending-prs': 'approve all',
+  'create-all-rate-limited-prs': 'create all',
+  'rebase-all-open-prs': 'rebase all',
+  'manual job': 'run Renovate',
+};
+
+/**
+ * Describe what ticking an entry does
+ */
+export function describeDashboardAction(action: string): string {
+  return ACTION_LABELS[action] ?? action;
+}
+
+/**
+ * Check if an issue is a Renovate Dependency Dashboard
+ */
+function isDashboardIssue(issue: { title: string; body?: string | null }): boolean {
+  // Renovate's dashboard always carries action markers; a same-named issue written by hand doesn't
+  return /dependency dashboard/i.test(issue.title) && /- \[[ x]\] <!-- [a-z-]+/i.test(issue.body ?? '');
+}
+
+/**
+ * Find the open Dependency Dashboard issue of a repository
+ * Returns null if Renovate has no dashboard there
+ */
+export async function findDependencyDashboard(
+  client: GitHubClient,
+  owner: string,
+  repo: string
+): Promise<DependencyDashboard | null> {
+  for await (const response of client.paginate.iterator(client.issues.listForRepo, {
+    owner,
+    repo,
+    state: 'open',
+    per_page: 100,
+  })) {
+    const issue = response.data.find((i) => !i.pull_request && isDashboardIssue(i));
+    if (issue) {
+      return {
+        issueNumber: issue.number,
+        title: issue.title,
+        htmlUrl: issue.html_url,
+        entries: parseDashboard(issue.body ?? ''),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the marker identifying an entry in the issue body
+ */
+function entryMarker(entry: DashboardEntry): string {
+  return entry.branch ? `<!-- ${entry.action}=${entry.branch} -->` : `<!-- ${entry.action} -->`;
+}
+
+/**
+ * Tick the checkboxes of the given entries in the dashboard issue
+ * The body is re-read first, Renovate rewrites it on every run
+ * Returns the entries that were ticked (entries no longer on the dashboard are left out)
+ */
+export async function tickDashboardEntries(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  entries: DashboardEntry[]
+): Promise<DashboardEntry[]> {
+  const { data: issue } = await client.issues.get({ owner, repo, issue_number: issueNumber });
+  const lines = (issue.body ?? '').split('\n');
+  const ticked: DashboardEntry[] = [];
+
+  for (const entry of entries) {
+    const marker = entryMarker(entry);
+    const index = lines.findIndex((line) => line.includes(`- [ ] ${marker}`));
+    if (index !== -1) {
+      lines[index] = lines[index].replace('- [ ]', '- [x]');
+      ticked.push(entry);
+    }
+  }
+
+  if (ticked.length > 0) {
+    await client.issues.update({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      body: lines.join('\n'),
+    });
+  }
+
+  return ticked;
+}
@@ -3,6 +3,7 @@
  */
 
 import type { PullRequest } from '../github/types.js';
+import { parseUpdateTable, compareVersions, type PackageUpdate } from './pr-body.js';
 
 const RENOVATE_IDENTIFIERS = [
   'renovate[bot]',
@@ -17,91 +18,154 @@ const RENOVATE_BRANCH_PATTERNS = [
 ];
 
 /**
- * Check if a PR is from Renovate
+ * Get why a PR counts as a Renovate PR, or null if it doesn't
  */
-export function isRenovatePR(pr: PullRequest): boolean {
+export function getRenovateMatch(pr: PullRequest): string | null {
   // Check author
   const authorLogin = pr.user?.login?.toLowerCase() ?? '';
   if (RENOVATE_IDENTIFIERS.some((id) => authorLogin.includes(id))) {
-    return true;
+    return `author "${pr.user?.login}"`;
   }
 
   // Check branch name
   const branchName = pr.head.ref;
   if (RENOVATE_BRANCH_PATTERNS.some((pattern) => pattern.test(branchName))) {
-    return true;
+    return `branch "${branchName}"`;
   }
 
   // Check for Renovate-specific labels
-  const labels = pr.labels.map((l) => l.name.toLowerCase());
-  if (labels.includes('renovate') || labels.includes('dependencies')) {
+  const label = pr.labels.map((l) => l.name.toLowerCase()).find((name) => name === 'renovate' || name === 'dependencies');
+  if (label) {
     // "dependencies" alone might not be Renovate, but combined with branch pattern it's likely
     if (branchName.toLowerCase().includes('renovate')) {
-      return true;
+      return `label "${label}" on branch "${branchName}"`;
     }
   }
 
-  return false;
+  return null;
 }
 
 /**
- * Filter PRs to only include Renovate PRs
- */
-export function filterRenovatePRs(prs: PullRequest[]): PullRequest[] {
-  return prs.filter(isRenovatePR);
-}
-
-/**
- * Extract dependency info from PR title (best effort)
+ * Dependency info of a Renovate PR (best effort)
  */
 export interface DependencyInfo {
   packageName: string | null;
   fromVersion: string | null;
   toVersion: string | null;
   updateType: 'major' | 'minor' | 'patch' | 'digest' | 'unknown';
+  /** Dependency type from the PR body, e.g. dependencies, devDependencies */
+  depType: string | null;
+  /**
+   * All packages listed in the PR body (empty if the body has no update table)
+   * Group PRs list several; packageName and versions are then null and updateType is the highest
+   */
+  packages: PackageUpdate[];
 }
 
 const UPDATE_TITLE_PATTERNS = [
-  // "Update package to v1.2.3"
-  /^Update\s+(.+?)\s+to\s+v?(\d+\.\d+\.\d+)/i,
   // "chore(deps): update package from 1.0.0 to 1.2.3"
-  /update\s+(.+?)\s+from\s+v?(\d+\.\d+\.\d+)\s+to\s+v?(\d+\.\d+\.\d+)/i,
+  /update\s+(?:dependency\s+)?(.+?)\s+from\s+v?(\d+\.\d+\.\d+)\s+to\s+v?(\d+\.\d+\.\d+)/i,
   // "fix(deps): bump package from 1.0.0 to 1.2.3"
   /bump\s+(.+?)\s+from\s+v?(\d+\.\d+\.\d+)\s+to\s+v?(\d+\.\d+\.\d+)/i,
 ];
 
-export function extractDependencyInfo(title: string): DependencyInfo {
+/** "Update dependency package to v1.2.3" (or "to v2" for major updates) - no from version */
+const UPDATE_TO_PATTERN = /^Update\s+(?:dependency\s+)?(.+?)\s+to\s+v?(\d+(?:\.\d+){0,2})\b/i;
+
+/**
+ * Extract dependency info from a Renovate PR
+ * The update table in the body is preferred, the title is the fallback
+ */
+export function extractDependencyInfo(title: string, body?: string | null): DependencyInfo {
+  const packages = body ? parseUpdateTable(body) : [];
+  if (packages.length === 1) {
+    const [update] = packages;
+    return {
+      packageName: update.packageName,
+      fromVersion: update.fromVersion,
+      toVersion: update.toVersion,
+      updateType: update.updateType,
+      depType: update.depType,
+      packages,
+    };
+  }
+
+  if (packages.length > 1) {
+    // Group/monorepo PR: the riskiest update decides, versions differ per package
+    const depTypes = new Set(packages.map((update) => update.depType));
+    return {
+      packageName: null,
+      fromVersion: null,
+      toVersion: null,
+      updateType: getHighestUpdateType(packages.map((update) => update.updateType)),
+      depType: depTypes.size === 1 ? packages[0].depType : null,
+      packages,
+    };
+  }
+
+  return { ...extractFromTitle(title), depType: null, packages: [] };
+}
+
+/** Known update types from least to most risky */
+const UPDATE_TYPE_RANK: Array<DependencyInfo['updateType']> = ['digest', 'patch', 'minor', 'major'];
+
+/**
+ * Get the riskiest of several update types
+ * Unknown if any of them is unknown - a group with an unparseable member may hide a major update
+ */
+export function getHighestUpdateType(types: Array<DependencyInfo['updateType']>): DependencyInfo['updateType'] {
+  if (types.length === 0 || types.includes('unknown')) {
+    return 'unknown';
+  }
+  return types.reduce((highest, type) =>
+    UPDATE_TYPE_RANK.indexOf(type) > UPDATE_TYPE_RANK.indexOf(highest) ? type : highest
+  );
+}
+
+/**
+ * Check if a PR updates several packages at once (Renovate group or monorepo PR)
+ */
+export function isGroupUpdate(info: DependencyInfo): boolean {
+  return info.packages.length > 1;
+}
+
+/**
+ * Get the names of all packages a PR updates
+ */
+export function getPackageNames(info: DependencyInfo): string[] {
+  if (info.packages.length > 0) {
+    return info.packages.map((update) => update.packageName);
+  }
+  return info.packageName ? [info.packageName] : [];
+}
+
+/**
+ * Extract dependency info from a PR title
+ */
+function extractFromTitle(title: string): Omit<DependencyInfo, 'depType' | 'packages'> {
   for (const pattern of UPDATE_TITLE_PATTERNS) {
     const match = title.match(pattern);
     if (match) {
-      const packageName = match[1];
-      const fromVersion = match[2] || null;
-      const toVersion = match[3] || match[2] || null;
-
-      // Determine update type based on semver
-      let updateType: DependencyInfo['updateType'] = 'unknown';
-      if (fromVersion && toVersion) {
-        const [fromMajor, fromMinor] = fromVersion.split('.').map(Number);
-        const [toMajor, toMinor] = toVersion.split('.').map(Number);
-
-        if (toMajor > fromMajor) {
-          updateType = 'major';
-        } else if (toMinor > fromMinor) {
-          updateType = 'minor';
-        } else {
-          updateType = 'patch';
-        }
-      }
-
       return {
-        packageName,
-        fromVersion,
-        toVersion,
-        updateType,
+        packageName: match[1],
+        fromVersion: match[2],
+        toVersion: match[3],
+        updateType: compareVersions(match[2], match[3]),
       };
     }
   }
 
+  const toMatch = title.match(UPDATE_TO_PATTERN);
+  if (toMatch) {
+    // Renovate only names the new major for major updates ("to v2"); otherwise the type is unknown
+    return {
+      packageName: toMatch[1],
+      fromVersion: null,
+      toVersion: toMatch[2],
+      updateType: /^\d+$/.test(toMatch[2]) ? 'major' : 'unknown',
+    };
+  }
+
   // Check for digest updates
   if (title.toLowerCase().includes('digest')) {
     return {
@@ -0,0 +1,146 @@
+/**
+ * Renovate PR body parsing - the update table at the top of every Renovate PR
+ *
+ *   | Package | Type | Update | Change | Age | Adoption | Passing | Confidence |
+ *   |---|---|---|---|---|---|---|---|
+ *   | [eslint](https://eslint.org) | devDependencies | major | [`^8.57.0` -> `^9.0.0`](...) | [![age](...)](...) | ...
+ *
+ * Only Package and Change are always present; the other columns depend on the Renovate config
+ */
+
+import type { DependencyInfo } from './detector.js';
+
+export type UpdateType = DependencyInfo['updateType'];
+
+/** Merge Confidence badge image URLs - the values are only rendered into the images */
+export interface ConfidenceBadges {
+  age?: string;
+  adoption?: string;
+  passing?: string;
+  confidence?: string;
+}
+
+export interface PackageUpdate {
+  packageName: string;
+  /** Dependency type, e.g. dependencies, devDependencies, action, docker */
+  depType: string | null;
+  updateType: UpdateType;
+  fromVersion: string | null;
+  toVersion: string | null;
+  badges: ConfidenceBadges;
+}
+
+const BADGE_COLUMNS = ['age', 'adoption', 'passing', 'confidence'] as const;
+
+/**
+ * Split a markdown table row into trimmed cells
+ */
+function splitRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map((cell) => cell.trim());
+}
+
+/**
+ * Get the text of a cell without markdown (first link text, or the plain text)
+ */
+function cellText(cell: string): string {
+  const link = /^\[([^\]]+)\]\(/.exec(cell);
+  const text = link ? link[1] : cell;
+  return text.replace(/[`*_]/g, '').trim();
+}
+
+/**
+ * Map Renovate's update type to ours (pin, lockFileMaintenance etc. are 'unknown')
+ */
+function mapUpdateType(value: string): UpdateType | null {
+  switch (value.toLowerCase()) {
+    case 'major':
+    case 'minor':
+    case 'patch':
+    case 'digest':
+      return value.toLowerCase() as UpdateType;
+    case 'pindigest':
+      return 'digest';
+    case '':
+      return null;
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Compare two versions to get the update type (best effort, ignores range prefixes like ^ and ~)
+ */
+export function compareVersions(fromVersion: string, toVersion: string): UpdateType {
+  const parse = (version: string): number[] | null => {
+    const match = /(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(version);
+    return match ? match.slice(1).map((part) => Number(part ?? 0)) : null;
+  };
+
+  const from = parse(fromVersion);
+  const to = parse(toVersion);
+  if (!from || !to) {
+    return 'unknown';
+  }
+  if (to[0] !== from[0]) return 'major';
+  if (to[1] !== from[1]) return 'minor';
+  return 'patch';
+}
+
+/**
+ * Parse the update table of a Renovate PR body
+ * Returns one entry per row; empty if the body has no update table
+ */
+export function parseUpdateTable(body: string): PackageUpdate[] {
+  const lines = body.split('\n');
+  const headerIndex = lines.findIndex((line) => /^\s*\|\s*Package\s*\|/i.test(line));
+  if (headerIndex === -1) {
+    return [];
+  }
+
+  const columns = splitRow(lines[headerIndex]).map((cell) => cell.toLowerCase());
+  const column = (cells: string[], name: string): string => {
+    const index = columns.indexOf(name);
+    return index === -1 ? '' : cells[index] ?? '';
+  };
+
+  const updates: PackageUpdate[] = [];
+  // Skip the header separator row
+  for (const line of lines.slice(headerIndex + 2)) {
+    if (!line.trim().startsWith('|')) {
+      break;
+    }
+
+    const cells = splitRow(line);
+    const packageName = cellText(column(cells, 'package'));
+    if (!packageName) {
+      continue;
+    }
+
+    // Change: `from` -> `to` (or → in newer versions); a single value is the new version
+    const versions = [...column(cells, 'change').matchAll(/`([^`]+)`/g)].map((match) => match[1]);
+    const fromVersion = versions.length > 1 ? versions[0] : null;
+    const toVersion = versions.length > 0 ? versions[versions.length - 1] : null;
+
+    const updateType = mapUpdateType(cellText(column(cells, 'update')))
+      ?? (fromVersion && toVersion ? compareVersions(fromVersion, toVersion) : 'unknown');
+
+    const badges: ConfidenceBadges = {};
+    for (const name of BADGE_COLUMNS) {
+      const image = /!\[[^\]]*\]\(([^)\s]+)\)/.exec(column(cells, name));
+      if (image) {
+        badges[name] = image[1];
+      }
+    }
+
+    updates.push({
+      packageName,
+      depType: cellText(column(cells, 'type')) || null,
+      updateType,
+      fromVersion,
+      toVersion,
+      badges,
+    });
+  }
+
+  return updates;
+}
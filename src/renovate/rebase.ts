@@ -1,129 +1,338 @@
 /**
- * Renovate rebase triggering
+ * Rebase triggering - asks the PR's bot (see bots/) or lets GitHub update the branch
  */
 
 import type { GitHubClient } from '../github/client.js';
 import type { PullRequest } from '../github/types.js';
-import { updatePullRequestBody } from '../github/pulls.js';
-import { RenovateError, ErrorCode } from '../errors/types.js';
-
-// Patterns for finding the rebase checkbox in PR body
-const REBASE_CHECKBOX_PATTERNS = [
-  // Standard Renovate checkbox
-  /- \[ \] <!-- rebase-check -->/,
-  // Alternative formats
-  /- \[ \] If you want to rebase\/retry this PR/i,
-  /- \[ \] Rebase this PR/i,
-  /\[ \] <!-- renovate-rebase -->/,
-];
-
-// Patterns for already checked checkbox
-const CHECKED_PATTERNS = [
-  /- \[x\] <!-- rebase-check -->/i,
-  /- \[x\] If you want to rebase\/retry this PR/i,
-  /- \[x\] Rebase this PR/i,
-  /\[x\] <!-- renovate-rebase -->/i,
-];
+import type { BotAdapter } from '../bots/adapter.js';
+import { getPullRequest, needsRebase } from '../github/pulls.js';
+import { RenovateError, PollingTimeoutError, ErrorCode, hasHttpStatus } from '../errors/types.js';
+import { poll, createRebasePollerOptions } from '../utils/poller.js';
+
+export type RebaseStrategy = 'checkbox' | 'label' | 'comment' | 'update-branch';
+
+export const REBASE_STRATEGIES: RebaseStrategy[] = ['checkbox', 'label', 'comment', 'update-branch'];
+
+export interface RebaseStep {
+  strategy: RebaseStrategy;
+  /** How long to wait for a new commit before the next strategy is tried (ms) */
+  timeoutMs: number;
+  /** Only used when the earlier steps can't be applied, never after one timed out */
+  fallback?: boolean;
+}
 
 /**
- * Check if the rebase checkbox is already checked
+ * The default chain: the checkbox, or a comment for PRs without one (e.g. Dependabot)
+ * Only one of them is waited for, so timeoutMs is the whole wait
  */
-export function isRebaseAlreadyTriggered(body: string): boolean {
-  return CHECKED_PATTERNS.some((pattern) => pattern.test(body));
+export function getDefaultRebaseSteps(timeoutMs: number): RebaseStep[] {
+  return [
+    { strategy: 'checkbox', timeoutMs },
+    { strategy: 'comment', timeoutMs, fallback: true },
+  ];
 }
 
 /**
- * Check if the PR body has a rebase checkbox
+ * Merge the base branch into the PR branch via GitHub (not the bot)
+ * Returns false if GitHub refuses (conflicts, or already up to date)
  */
-export function hasRebaseCheckbox(body: string): boolean {
-  return (
-    REBASE_CHECKBOX_PATTERNS.some((pattern) => pattern.test(body)) ||
-    CHECKED_PATTERNS.some((pattern) => pattern.test(body))
-  );
+async function updateBranch(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: PullRequest
+): Promise<boolean> {
+  try {
+    await client.pulls.updateBranch({
+      owner,
+      repo,
+      pull_number: pr.number,
+      expected_head_sha: pr.head.sha,
+    });
+    return true;
+  } catch (error) {
+    if (hasHttpStatus(error, 422)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Trigger a rebase with a single strategy
+ * Returns false if the strategy can't be applied to this PR
+ */
+export async function triggerRebaseStrategy(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  bot: BotAdapter,
+  strategy: RebaseStrategy
+): Promise<boolean> {
+  if (strategy === 'update-branch') {
+    return updateBranch(client, owner, repo, pr);
+  }
+  return bot.requestRebase(client, owner, repo, pr, strategy);
 }
 
 /**
- * Trigger a rebase by checking the checkbox in the PR body
+ * Trigger a rebase with the first applicable strategy, starting at step `fromIndex`
+ * Fallback steps are skipped when an earlier strategy was already waited for
+ * Returns the index of the step that was triggered
  */
 export async function triggerRebase(
   client: GitHubClient,
   owner: string,
   repo: string,
-  pr: PullRequest
-): Promise<'checkbox' | 'comment'> {
-  const body = pr.body ?? '';
+  pr: PullRequest,
+  bot: BotAdapter,
+  steps: RebaseStep[],
+  fromIndex: number = 0
+): Promise<number> {
+  for (let index = fromIndex; index < steps.length; index++) {
+    if (fromIndex > 0 && steps[index].fallback) {
+      continue;
+    }
+    if (await triggerRebaseStrategy(client, owner, repo, pr, bot, steps[index].strategy)) {
+      return index;
+    }
+  }
+
+  const tried = steps.slice(fromIndex).map((step) => step.strategy).join(', ');
+  throw new RenovateError(
+    ErrorCode.REBASE_NOT_POSSIBLE,
+    `No rebase strategy could be applied (tried: ${tried || 'none'})`
+  );
+}
+
+/**
+ * Trigger a rebase like triggerRebase, returning null if no strategy applies
+ */
+async function tryTriggerRebase(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  bot: BotAdapter,
+  steps: RebaseStep[],
+  fromIndex: number
+): Promise<number | null> {
+  try {
+    return await triggerRebase(client, owner, repo, pr, bot, steps, fromIndex);
+  } catch (error) {
+    if (error instanceof RenovateError) {
+      return null;
+    }
+    throw error;
+  }
+}
 
-  // Check if already triggered
-  if (isRebaseAlreadyTriggered(body)) {
-    // Already triggered, nothing to do
-    return 'checkbox';
+/**
+ * Rebase a PR through the strategy chain and wait until the rebase is done
+ * Each strategy gets its own timeout before the next one is tried; when the bot refuses,
+ * only update-branch (which doesn't need the bot) is tried next
+ * With resumedStrategy, that step was already triggered (interrupted run) and is only waited for
+ */
+export async function rebaseWithStrategies(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  bot: BotAdapter,
+  steps: RebaseStep[],
+  onTriggered: (strategy: RebaseStrategy) => void,
+  onWaiting: (strategy: RebaseStrategy, elapsedMs: number) => void,
+  resumedStrategy?: string
+): Promise<RebaseResult> {
+  const startedAt = Date.now();
+  let index: number;
+  if (resumedStrategy !== undefined) {
+    // A strategy no longer in the chain (changed config) is waited for as the first step
+    index = Math.max(steps.findIndex((step) => step.strategy === resumedStrategy), 0);
+  } else {
+    index = await triggerRebase(client, owner, repo, pr, bot, steps);
+    onTriggered(steps[index].strategy);
   }
 
-  // Try to find and check the checkbox
-  for (const pattern of REBASE_CHECKBOX_PATTERNS) {
-    if (pattern.test(body)) {
-      const newBody = body.replace(pattern, (match) => {
-        return match.replace('[ ]', '[x]');
-      });
+  while (true) {
+    const { strategy, timeoutMs } = steps[index];
+    const triggeredAt = new Date();
+    let progress: RebaseProgress | undefined;
+    try {
+      progress = await poll<RebaseProgress>(
+        () => getRebaseProgress(client, owner, repo, pr, bot, strategy, triggeredAt),
+        {
+          ...createRebasePollerOptions(
+            (pollResult) => (pollResult.outcome ? 'done' : 'continue'),
+            (_, elapsed) => onWaiting(strategy, elapsed)
+          ),
+          timeoutMs,
+        }
+      );
+    } catch (error) {
+      if (!(error instanceof PollingTimeoutError) || index === steps.length - 1) {
+        throw error;
+      }
+    }
+
+    if (progress && progress.outcome !== 'refused') {
+      return { strategy, outcome: progress.outcome!, sha: progress.currentSha };
+    }
 
-      await updatePullRequestBody(client, owner, repo, pr.number, newBody);
-      return 'checkbox';
+    // Nothing happened: try the next strategy; the bot refused: only update-branch can help
+    const nextIndex = progress
+      ? steps.findIndex((step, i) => i > index && step.strategy === 'update-branch')
+      : index + 1;
+    const next = nextIndex === -1 ? null : await tryTriggerRebase(client, owner, repo, pr, bot, steps, nextIndex);
+    if (next === null) {
+      if (progress) {
+        return { strategy, outcome: 'refused', reason: progress.reason, sha: progress.currentSha };
+      }
+      // The last applicable strategy timed out
+      throw new PollingTimeoutError('rebase', Date.now() - startedAt);
     }
+    index = next;
+    onTriggered(steps[index].strategy);
   }
+}
 
-  // No checkbox found - fall back to comment
-  // Some Renovate configs respond to @renovate rebase comment
-  await client.issues.createComment({
-    owner,
-    repo,
-    issue_number: pr.number,
-    body: '@renovate rebase',
+/**
+ * Validate raw rebase strategies from a configuration file, returning a list of issues
+ * Entries are a strategy name or { "strategy": name, "timeoutMs": ms }
+ */
+export function validateRebaseStrategies(value: unknown, key: string): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    return [`"${key}" must be a non-empty array of strategies`];
+  }
+
+  const issues: string[] = [];
+  value.forEach((entry: unknown, index) => {
+    const at = `${key}[${index}]`;
+    const isStrategy = (v: unknown): boolean => REBASE_STRATEGIES.includes(v as RebaseStrategy);
+
+    if (typeof entry === 'string') {
+      if (!isStrategy(entry)) {
+        issues.push(`"${at}" must be one of: ${REBASE_STRATEGIES.join(', ')}`);
+      }
+      return;
+    }
+
+    if (entry === null || typeof entry !== 'object' || Array.isArray(entry)) {
+      issues.push(`"${at}" must be a strategy name or an object`);
+      return;
+    }
+
+    const e = entry as Record<string, unknown>;
+    for (const k of Object.keys(e)) {
+      if (k !== 'strategy' && k !== 'timeoutMs') {
+        issues.push(`"${at}" has unknown option "${k}" (allowed: strategy, timeoutMs)`);
+      }
+    }
+    if (!isStrategy(e.strategy)) {
+      issues.push(`"${at}.strategy" must be one of: ${REBASE_STRATEGIES.join(', ')}`);
+    }
+    if (e.timeoutMs !== undefined && (typeof e.timeoutMs !== 'number' || !(e.timeoutMs > 0))) {
+      issues.push(`"${at}.timeoutMs" must be a positive number of milliseconds`);
+    }
   });
 
-  return 'comment';
+  return issues;
+}
+
+export type RebaseOutcome = 'rebased' | 'not-needed' | 'refused';
+
+export interface RebaseResult {
+  /** Strategy that finished the rebase */
+  strategy: RebaseStrategy;
+  outcome: RebaseOutcome;
+  /** Why the bot refused (from its comment) */
+  reason?: string;
+  /** Head SHA after the rebase */
+  sha: string;
+}
+
+export interface RebaseProgress {
+  /** Undefined while the rebase is still in progress */
+  outcome?: RebaseOutcome;
+  reason?: string;
+  currentSha: string;
 }
 
 /**
- * Wait for Renovate to push a new commit after rebase
+ * Find a bot comment answering the rebase request, posted since the trigger
+ * Returns the outcome it stands for and its first line (without markdown) as the reason
  */
-export async function hasNewCommitSince(
+async function findBotAnswer(
   client: GitHubClient,
   owner: string,
   repo: string,
   prNumber: number,
-  previousSha: string
-): Promise<{ hasNewCommit: boolean; currentSha: string }> {
-  const { data: pr } = await client.pulls.get({
+  bot: BotAdapter,
+  since: Date
+): Promise<{ outcome: RebaseOutcome; reason: string } | null> {
+  const { data: comments } = await client.issues.listComments({
     owner,
     repo,
-    pull_number: prNumber,
+    issue_number: prNumber,
+    since: since.toISOString(),
+    per_page: 100,
   });
 
-  return {
-    hasNewCommit: pr.head.sha !== previousSha,
-    currentSha: pr.head.sha,
-  };
+  for (const comment of comments) {
+    if (comment.user?.type !== 'Bot') {
+      continue;
+    }
+    const body = comment.body ?? '';
+    const outcome: RebaseOutcome | null =
+      bot.rebaseComments.refused.some((pattern) => pattern.test(body)) ? 'refused'
+        : bot.rebaseComments.notNeeded.some((pattern) => pattern.test(body)) ? 'not-needed'
+          : null;
+    if (outcome) {
+      const firstLine = body.split('\n').find((line) => line.trim()) ?? '';
+      return { outcome, reason: firstLine.replace(/^[#\s]+/, '').replace(/[*_]/g, '').trim() };
+    }
+  }
+
+  return null;
 }
 
 /**
- * Check if rebase can be triggered for this PR
+ * Check how far a triggered rebase has come
+ * `pr` is the PR as it was before the trigger. The bot either pushes a new commit, or
+ * handles the request without pushing (e.g. unticks the checkbox - rebase not needed), or comments
+ * that the branch is up to date or that it won't touch the branch (refused)
  */
-export function canTriggerRebase(pr: PullRequest): { canTrigger: boolean; reason?: string } {
-  const body = pr.body ?? '';
-
-  if (!hasRebaseCheckbox(body)) {
-    return {
-      canTrigger: true, // We can still try via comment
-      reason: 'No rebase checkbox found, will try comment method',
-    };
+export async function getRebaseProgress(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  bot: BotAdapter,
+  strategy: RebaseStrategy,
+  triggeredAt: Date
+): Promise<RebaseProgress> {
+  const fresh = await getPullRequest(client, owner, repo, pr.number);
+  const currentSha = fresh.head.sha;
+
+  if (currentSha !== pr.head.sha) {
+    return { outcome: 'rebased', currentSha };
+  }
+
+  const requestHandled = strategy !== 'update-branch' && bot.isRebaseRequestHandled(fresh, strategy);
+  // GitHub recalculated the state (e.g. the base branch change was reverted) - nothing to do
+  const upToDate = fresh.mergeableState !== pr.mergeableState &&
+    fresh.mergeableState !== 'unknown' && !needsRebase(fresh);
+  if (requestHandled || upToDate) {
+    return { outcome: 'not-needed', currentSha };
   }
 
-  if (isRebaseAlreadyTriggered(body)) {
-    return {
-      canTrigger: false,
-      reason: 'Rebase already triggered',
-    };
+  if (strategy !== 'update-branch') {
+    const answer = await findBotAnswer(client, owner, repo, pr.number, bot, triggeredAt);
+    if (answer) {
+      return { ...answer, currentSha };
+    }
   }
 
-  return { canTrigger: true };
+  return { currentSha };
 }
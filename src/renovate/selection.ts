@@ -0,0 +1,94 @@
+/**
+ * Non-interactive PR selection filters
+ */
+
+import type { PullRequest } from '../github/types.js';
+import { getPackageNames, type DependencyInfo } from './detector.js';
+import { isBotPR, getDependencyInfo, DEFAULT_BOT_ADAPTERS } from '../bots/registry.js';
+import type { BotAdapter } from '../bots/adapter.js';
+import { matchesGlob } from '../utils/glob.js';
+
+export type UpdateType = DependencyInfo['updateType'];
+
+export const UPDATE_TYPES: UpdateType[] = ['major', 'minor', 'patch', 'digest', 'unknown'];
+
+export interface SelectionFilter {
+  /** Only include PRs with one of these update types */
+  updateTypes: UpdateType[];
+  /** Only include PRs carrying at least one of these labels */
+  labels: string[];
+  /** Only include PRs updating a package that matches one of these globs */
+  packages: string[];
+  /** Exclude PRs updating a package that matches one of these globs */
+  excludePackages: string[];
+}
+
+export const EMPTY_FILTER: SelectionFilter = {
+  updateTypes: [],
+  labels: [],
+  packages: [],
+  excludePackages: [],
+};
+
+/**
+ * Check if any selection criteria are set
+ */
+export function hasSelectionFilter(filter: SelectionFilter): boolean {
+  return (
+    filter.updateTypes.length > 0 ||
+    filter.labels.length > 0 ||
+    filter.packages.length > 0 ||
+    filter.excludePackages.length > 0
+  );
+}
+
+/**
+ * Check if a PR matches all criteria of the filter
+ * Empty criteria always match
+ */
+export function matchesSelectionFilter(
+  pr: PullRequest,
+  filter: SelectionFilter,
+  adapters: BotAdapter[] = DEFAULT_BOT_ADAPTERS
+): boolean {
+  const info = getDependencyInfo(pr, adapters);
+
+  if (filter.updateTypes.length > 0 && !filter.updateTypes.includes(info.updateType)) {
+    return false;
+  }
+
+  if (filter.labels.length > 0) {
+    const prLabels = pr.labels.map((l) => l.name.toLowerCase());
+    if (!filter.labels.some((label) => prLabels.includes(label.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  // Group PRs match if any of their packages does
+  const packageNames = getPackageNames(info);
+
+  if (filter.packages.length > 0) {
+    if (!packageNames.some((name) => filter.packages.some((glob) => matchesGlob(name, glob)))) {
+      return false;
+    }
+  }
+
+  if (filter.excludePackages.length > 0) {
+    if (packageNames.some((name) => filter.excludePackages.some((glob) => matchesGlob(name, glob)))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Select dependency bot PRs matching the filter, preserving input order
+ */
+export function selectPRs(
+  prs: PullRequest[],
+  filter: SelectionFilter,
+  adapters: BotAdapter[] = DEFAULT_BOT_ADAPTERS
+): PullRequest[] {
+  return prs.filter((pr) => isBotPR(pr, adapters) && matchesSelectionFilter(pr, filter, adapters));
+}
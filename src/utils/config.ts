@@ -6,17 +6,23 @@
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import { homedir } from 'node:os';
 import { join } from 'node:path';
+import { ConfigError } from '../errors/types.js';
 
-const CONFIG_DIR = join(homedir(), '.config', 'gh-renovate');
-const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
+export const CONFIG_DIR = join(homedir(), '.config', 'gh-renovate');
+export const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
 const MAX_RECENT_REPOS = 10;
 
 interface Config {
   recentRepos: string[];
+  /** Named sets of repositories (e.g. "frontend": ["org/web", "org/app"]) */
+  repoSets: Record<string, string[]>;
+  /** Global run defaults (validated by policy-config) */
+  defaults?: unknown;
 }
 
 const DEFAULT_CONFIG: Config = {
   recentRepos: [],
+  repoSets: {},
 };
 
 /**
@@ -30,16 +36,65 @@ async function ensureConfigDir(): Promise<void> {
   }
 }
 
+/**
+ * Validate the repository sets, returning issue messages (empty if valid)
+ */
+function validateRepoSets(value: unknown): string[] {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return ['"repoSets" must be an object mapping set names to repository lists'];
+  }
+  return Object.entries(value)
+    .filter(([, repos]) => !Array.isArray(repos) || !repos.every((repo) => typeof repo === 'string'))
+    .map(([name]) => `"repoSets.${name}" must be an array of strings`);
+}
+
+/**
+ * Check if a file system error means the file doesn't exist
+ */
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT';
+}
+
 /**
  * Load config from disk
+ * A missing file gives the defaults; an unreadable or invalid file throws a ConfigError,
+ * so a broken file neither loosens the run's policy nor gets overwritten by saveConfig
  */
 async function loadConfig(): Promise<Config> {
+  let data: string;
   try {
-    const data = await readFile(CONFIG_FILE, 'utf-8');
-    return { ...DEFAULT_CONFIG, ...JSON.parse(data) };
-  } catch {
-    return DEFAULT_CONFIG;
+    data = await readFile(CONFIG_FILE, 'utf-8');
+  } catch (error) {
+    if (isMissingFile(error)) {
+      return DEFAULT_CONFIG;
+    }
+    throw new ConfigError(
+      CONFIG_FILE,
+      [`can't be read (${error instanceof Error ? error.message : String(error)})`],
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    throw new ConfigError(
+      CONFIG_FILE,
+      [`not valid JSON (${error instanceof Error ? error.message : String(error)})`],
+      error instanceof Error ? error : undefined
+    );
   }
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(CONFIG_FILE, ['configuration must be a JSON object']);
+  }
+
+  const config: Config = { ...DEFAULT_CONFIG, ...raw };
+  const issues = validateRepoSets(config.repoSets);
+  if (issues.length > 0) {
+    throw new ConfigError(CONFIG_FILE, issues);
+  }
+  return config;
 }
 
 /**
@@ -76,3 +131,19 @@ export async function addRecentRepo(repoPath: string): Promise<void> {
 
   await saveConfig(config);
 }
+
+/**
+ * Get a named repository set, or undefined if it doesn't exist
+ */
+export async function getRepoSet(name: string): Promise<string[] | undefined> {
+  const config = await loadConfig();
+  return Object.hasOwn(config.repoSets, name) ? config.repoSets[name] : undefined;
+}
+
+/**
+ * Get the raw global run defaults (unvalidated), or undefined if not set
+ */
+export async function getGlobalDefaults(): Promise<unknown> {
+  const config = await loadConfig();
+  return config.defaults;
+}
@@ -0,0 +1,134 @@
+/**
+ * GitHub CLI configuration (hosts.yml) - hosts the user is logged in to, with their tokens
+ * Stored in GH_CONFIG_DIR, $XDG_CONFIG_HOME/gh or ~/.config/gh (same lookup as gh)
+ */
+
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_HOST, normalizeHost } from './url-parser.js';
+
+export interface GhHost {
+  host: string;
+  /** Active account on the host */
+  user?: string;
+  /** Missing if gh keeps the token in the system keyring */
+  oauthToken?: string;
+}
+
+type YamlMap = { [key: string]: string | YamlMap };
+
+/**
+ * Get the gh CLI configuration directory
+ */
+export function getGhConfigDir(): string {
+  if (process.env.GH_CONFIG_DIR) {
+    return process.env.GH_CONFIG_DIR;
+  }
+  if (process.env.XDG_CONFIG_HOME) {
+    return join(process.env.XDG_CONFIG_HOME, 'gh');
+  }
+  if (process.platform === 'win32' && process.env.AppData) {
+    return join(process.env.AppData, 'GitHub CLI');
+  }
+  return join(homedir(), '.config', 'gh');
+}
+
+/**
+ * Get the path of the gh CLI hosts file
+ */
+export function getGhHostsPath(): string {
+  return join(getGhConfigDir(), 'hosts.yml');
+}
+
+/**
+ * Remove surrounding quotes from a YAML scalar
+ */
+function unquote(value: string): string {
+  return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
+
+/**
+ * Parse the nested mappings of scalars that gh writes to hosts.yml
+ * Not a general YAML parser - sequences, anchors and multi-line scalars are not supported
+ */
+export function parseSimpleYaml(content: string): YamlMap {
+  const root: YamlMap = {};
+  const stack: { indent: number; map: YamlMap }[] = [{ indent: -1, map: root }];
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const match = trimmed.match(/^("[^"]*"|'[^']*'|[^:]+?):(?:\s+(.*))?$/);
+    if (!match) continue;
+
+    const indent = line.length - line.trimStart().length;
+    while (stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1].map;
+    const key = unquote(match[1]);
+    const value = match[2]?.replace(/\s+#.*$/, '').trim();
+
+    if (value) {
+      parent[key] = unquote(value);
+    } else {
+      const child: YamlMap = {};
+      parent[key] = child;
+      stack.push({ indent, map: child });
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Read a string value of a mapping
+ */
+function getString(map: YamlMap | undefined, key: string): string | undefined {
+  const value = map?.[key];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Parse the hosts of a hosts.yml file
+ * The token is stored per host, and since gh 2.40 also per account under "users"
+ */
+export function parseGhHosts(content: string): GhHost[] {
+  const hosts: GhHost[] = [];
+  for (const [host, entry] of Object.entries(parseSimpleYaml(content))) {
+    if (typeof entry !== 'object') continue;
+
+    const user = getString(entry, 'user');
+    const users = typeof entry.users === 'object' ? entry.users : undefined;
+    const account = user && typeof users?.[user] === 'object' ? users[user] as YamlMap : undefined;
+    hosts.push({
+      host: normalizeHost(host),
+      user,
+      oauthToken: getString(entry, 'oauth_token') ?? getString(account, 'oauth_token'),
+    });
+  }
+  return hosts;
+}
+
+/**
+ * Load the hosts gh is logged in to, or null if gh has no hosts file
+ */
+export async function loadGhHosts(path: string = getGhHostsPath()): Promise<GhHost[] | null> {
+  try {
+    return parseGhHosts(await readFile(path, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the host gh uses by default - github.com if logged in there, otherwise the first host
+ */
+export function getGhDefaultHost(hosts: GhHost[] | null): string | undefined {
+  if (!hosts || hosts.length === 0) {
+    return undefined;
+  }
+  return hosts.some((entry) => entry.host === DEFAULT_HOST) ? DEFAULT_HOST : hosts[0].host;
+}
@@ -0,0 +1,51 @@
+/**
+ * Minimal glob (and /regex/) matching for package names and check names
+ */
+
+/**
+ * Convert a glob pattern to a regular expression
+ * Supports `*` (any sequence of characters) and `?` (single character)
+ */
+export function globToRegExp(pattern: string, flags = 'i'): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`, flags);
+}
+
+/**
+ * Check if a value matches a glob pattern (case-insensitive)
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+/**
+ * Check if a value matches a pattern - a regex written as /.../, otherwise a glob
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  if (isRegExpPattern(pattern)) {
+    return new RegExp(pattern.slice(1, -1), 'i').test(value);
+  }
+  return matchesGlob(value, pattern);
+}
+
+/**
+ * Check if a value matches any of the patterns
+ */
+export function matchesAnyPattern(value: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesPattern(value, pattern));
+}
+
+/**
+ * Check if a pattern is a regex (/.../)
+ */
+export function isRegExpPattern(pattern: string): boolean {
+  return pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/');
+}
@@ -0,0 +1,352 @@
+/**
+ * Layered run configuration
+ *
+ * Layers (later wins):
+ *   1. Global defaults ("defaults" in ~/.config/gh-renovate/config.json)
+ *   2. Repository policy (.gh-renovate.json, or the "gh-renovate" key in renovate.json)
+ *      read from the repository's default branch
+ *   3. CLI flags
+ */
+
+import type { GitHubClient } from '../github/client.js';
+import type { MergeMethod } from '../github/types.js';
+import { DEFAULT_OPTIONS, type OrchestratorOptions } from '../operations/orchestrator.js';
+import { getFileContent } from '../github/contents.js';
+import { CONFIG_FILE, getGlobalDefaults } from './config.js';
+import { UPDATE_TYPES, type SelectionFilter, type UpdateType } from '../renovate/selection.js';
+import { ConfigError } from '../errors/types.js';
+import { isRegExpPattern } from './glob.js';
+import { validateMergeRules, type MergeRule } from '../policy/engine.js';
+import {
+  getDefaultRebaseSteps,
+  validateRebaseStrategies,
+  type RebaseStep,
+  type RebaseStrategy,
+} from '../renovate/rebase.js';
+import { validateBotsConfig } from '../bots/registry.js';
+import type { BotsConfig } from '../bots/adapter.js';
+
+export interface PolicyConfig {
+  /** Merge method */
+  mergeMethod?: MergeMethod;
+  /** Timeout for CI checks in ms */
+  checkTimeoutMs?: number;
+  /** Timeout per rebase strategy in ms (the whole wait with the default chain) */
+  rebaseTimeoutMs?: number;
+  /** Rebase strategies tried in order; entries without timeoutMs use rebaseTimeoutMs */
+  rebaseStrategies?: RebaseStrategyConfig[];
+  /** Continue processing after a PR fails */
+  continueOnError?: boolean;
+  /** Dry run mode - no changes will be made */
+  dryRun?: boolean;
+  /** Approve PRs that have no approval yet */
+  autoApprove?: boolean;
+  /** Only select PRs with these update types */
+  updateTypes?: UpdateType[];
+  /** Only select PRs carrying one of these labels */
+  labels?: string[];
+  /** Only select PRs whose package matches one of these globs */
+  packages?: string[];
+  /** Never select PRs whose package matches one of these globs */
+  excludePackages?: string[];
+  /** Merge policy rules (see policy/engine) */
+  rules?: MergeRule[];
+  /** Timeout for PRs in a merge queue in ms */
+  mergeQueueTimeoutMs?: number;
+  /** Use GitHub auto-merge instead of merging each PR */
+  autoMerge?: boolean;
+  /** Timeout for auto-merge PRs in ms */
+  autoMergeTimeoutMs?: number;
+  /** Check names (globs or /regex/) that never affect merging */
+  ignoreChecks?: string[];
+  /** Check names to wait for even if not required */
+  waitChecks?: string[];
+  /** Check names that skip the PR while pending */
+  blockingChecks?: string[];
+  /** How long a queued check suite without runs counts as pending in ms (capped at half checkTimeoutMs) */
+  startingSuiteWindowMs?: number;
+  /** Reorder selected PRs so fewer of them need a rebase */
+  orderByConflicts?: boolean;
+  /** Bot logins, branch prefixes, labels and rebase checkboxes recognized in addition to the built-in ones */
+  bots?: BotsConfig;
+}
+
+/** A rebase strategy name, or a strategy with its own timeout */
+export type RebaseStrategyConfig = RebaseStrategy | { strategy: RebaseStrategy; timeoutMs?: number };
+
+export interface EffectivePolicy {
+  options: OrchestratorOptions;
+  filter: SelectionFilter;
+}
+
+/** Repository files checked for a policy, in order */
+export const REPO_POLICY_FILES = [
+  { path: '.gh-renovate.json', key: null },
+  { path: 'renovate.json', key: 'gh-renovate' },
+  { path: '.github/renovate.json', key: 'gh-renovate' },
+] as const;
+
+type FieldSpec =
+  | { type: 'boolean' }
+  | { type: 'duration' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'enumArray'; values: readonly string[] }
+  | { type: 'stringArray' }
+  | { type: 'patternArray' }
+  | { type: 'rules' }
+  | { type: 'rebaseStrategies' }
+  | { type: 'bots' };
+
+const MERGE_METHODS: MergeMethod[] = ['merge', 'squash', 'rebase'];
+
+const SCHEMA: Record<keyof PolicyConfig, FieldSpec> = {
+  mergeMethod: { type: 'enum', values: MERGE_METHODS },
+  checkTimeoutMs: { type: 'duration' },
+  rebaseTimeoutMs: { type: 'duration' },
+  rebaseStrategies: { type: 'rebaseStrategies' },
+  continueOnError: { type: 'boolean' },
+  dryRun: { type: 'boolean' },
+  autoApprove: { type: 'boolean' },
+  updateTypes: { type: 'enumArray', values: UPDATE_TYPES },
+  labels: { type: 'stringArray' },
+  packages: { type: 'stringArray' },
+  excludePackages: { type: 'stringArray' },
+  rules: { type: 'rules' },
+  mergeQueueTimeoutMs: { type: 'duration' },
+  autoMerge: { type: 'boolean' },
+  autoMergeTimeoutMs: { type: 'duration' },
+  orderByConflicts: { type: 'boolean' },
+  ignoreChecks: { type: 'patternArray' },
+  waitChecks: { type: 'patternArray' },
+  blockingChecks: { type: 'patternArray' },
+  startingSuiteWindowMs: { type: 'duration' },
+  bots: { type: 'bots' },
+};
+
+/** Keys that are accepted but ignored (editor support) */
+const IGNORED_KEYS = ['$schema'];
+
+/**
+ * Validate a single field against its spec, returning issue messages (empty if valid)
+ */
+function validateField(key: string, value: unknown, spec: FieldSpec): string[] {
+  switch (spec.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`"${key}" must be true or false`];
+    case 'duration':
+      return typeof value === 'number' && Number.isFinite(value) && value > 0
+        ? []
+        : [`"${key}" must be a positive number of milliseconds`];
+    case 'enum':
+      return typeof value === 'string' && spec.values.includes(value)
+        ? []
+        : [`"${key}" must be one of: ${spec.values.join(', ')}`];
+    case 'enumArray':
+      if (!Array.isArray(value)) {
+        return [`"${key}" must be an array`];
+      }
+      for (const item of value) {
+        if (typeof item !== 'string' || !spec.values.includes(item)) {
+          return [`"${key}" contains invalid value ${JSON.stringify(item)} (allowed: ${spec.values.join(', ')})`];
+        }
+      }
+      return [];
+    case 'stringArray':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string')
+        ? []
+        : [`"${key}" must be an array of strings`];
+    case 'patternArray': {
+      if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+        return [`"${key}" must be an array of strings`];
+      }
+      const issues: string[] = [];
+      for (const pattern of value.filter(isRegExpPattern)) {
+        try {
+          new RegExp(pattern.slice(1, -1));
+        } catch {
+          issues.push(`"${key}" contains invalid regular expression ${pattern}`);
+        }
+      }
+      return issues;
+    }
+    case 'rules':
+      return validateMergeRules(value, key);
+    case 'rebaseStrategies':
+      return validateRebaseStrategies(value, key);
+    case 'bots':
+      return validateBotsConfig(value, key);
+  }
+}
+
+/**
+ * Validate raw (parsed JSON) configuration
+ * Collects all issues and throws a single ConfigError listing them
+ */
+export function validatePolicyConfig(raw: unknown, source: string): PolicyConfig {
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(source, ['configuration must be a JSON object']);
+  }
+
+  const issues: string[] = [];
+  const config: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (IGNORED_KEYS.includes(key)) {
+      continue;
+    }
+
+    const spec = SCHEMA[key as keyof PolicyConfig];
+    if (!spec) {
+      issues.push(`unknown option "${key}" (allowed: ${Object.keys(SCHEMA).join(', ')})`);
+      continue;
+    }
+
+    const fieldIssues = validateField(key, value, spec);
+    if (fieldIssues.length > 0) {
+      issues.push(...fieldIssues);
+    } else {
+      config[key] = value;
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(source, issues);
+  }
+
+  return config as PolicyConfig;
+}
+
+/**
+ * Parse and validate a JSON policy document
+ * If key is given, the policy is read from that property of the document
+ */
+export function parsePolicyConfig(content: string, source: string, key: string | null = null): PolicyConfig | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(
+      source,
+      [`not valid JSON (${error instanceof Error ? error.message : String(error)})`],
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  if (key === null) {
+    return validatePolicyConfig(parsed, source);
+  }
+
+  if (parsed === null || typeof parsed !== 'object' || !(key in parsed)) {
+    return null;
+  }
+
+  return validatePolicyConfig((parsed as Record<string, unknown>)[key], `${source} ("${key}")`);
+}
+
+/**
+ * Load the global defaults from the user config file
+ */
+export async function loadGlobalPolicyConfig(): Promise<PolicyConfig> {
+  const defaults = await getGlobalDefaults();
+  if (defaults === undefined) {
+    return {};
+  }
+  return validatePolicyConfig(defaults, `${CONFIG_FILE} ("defaults")`);
+}
+
+/**
+ * Load the policy of a repository from its default branch
+ * Returns an empty config if the repository has none
+ */
+export async function loadRepoPolicyConfig(
+  client: GitHubClient,
+  owner: string,
+  repo: string
+): Promise<PolicyConfig> {
+  for (const file of REPO_POLICY_FILES) {
+    const content = await getFileContent(client, owner, repo, file.path);
+    if (content === null) {
+      continue;
+    }
+
+    const config = parsePolicyConfig(content, `${owner}/${repo}:${file.path}`, file.key);
+    if (config) {
+      return config;
+    }
+  }
+
+  return {};
+}
+
+/**
+ * Merge configuration layers - later layers override earlier ones
+ * Undefined values never override
+ */
+export function mergePolicyConfigs(...layers: PolicyConfig[]): PolicyConfig {
+  const merged: Record<string, unknown> = {};
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    }
+  }
+
+  return merged as PolicyConfig;
+}
+
+/**
+ * Resolve configured rebase strategies into steps with timeouts
+ */
+function toRebaseSteps(strategies: RebaseStrategyConfig[], defaultTimeoutMs: number): RebaseStep[] {
+  return strategies.map((entry) =>
+    typeof entry === 'string'
+      ? { strategy: entry, timeoutMs: defaultTimeoutMs }
+      : { strategy: entry.strategy, timeoutMs: entry.timeoutMs ?? defaultTimeoutMs }
+  );
+}
+
+/**
+ * Turn a merged configuration into orchestrator options and a selection filter
+ */
+export function toEffectivePolicy(config: PolicyConfig): EffectivePolicy {
+  const checkTimeoutMs = config.checkTimeoutMs ?? DEFAULT_OPTIONS.checkTimeoutMs;
+  const rebaseTimeoutMs = config.rebaseTimeoutMs ?? DEFAULT_OPTIONS.rebaseTimeoutMs;
+
+  return {
+    options: {
+      checkTimeoutMs,
+      rebaseTimeoutMs,
+      rebaseStrategies: config.rebaseStrategies
+        ? toRebaseSteps(config.rebaseStrategies, rebaseTimeoutMs)
+        : getDefaultRebaseSteps(rebaseTimeoutMs),
+      mergeMethod: config.mergeMethod ?? DEFAULT_OPTIONS.mergeMethod,
+      continueOnError: config.continueOnError ?? DEFAULT_OPTIONS.continueOnError,
+      dryRun: config.dryRun ?? DEFAULT_OPTIONS.dryRun,
+      autoApprove: config.autoApprove ?? DEFAULT_OPTIONS.autoApprove,
+      rules: config.rules ?? DEFAULT_OPTIONS.rules,
+      mergeQueueTimeoutMs: config.mergeQueueTimeoutMs ?? DEFAULT_OPTIONS.mergeQueueTimeoutMs,
+      autoMerge: config.autoMerge ?? DEFAULT_OPTIONS.autoMerge,
+      autoMergeTimeoutMs: config.autoMergeTimeoutMs ?? DEFAULT_OPTIONS.autoMergeTimeoutMs,
+      orderByConflicts: config.orderByConflicts ?? DEFAULT_OPTIONS.orderByConflicts,
+      bots: config.bots ?? DEFAULT_OPTIONS.bots,
+      checks: {
+        ignore: config.ignoreChecks ?? DEFAULT_OPTIONS.checks.ignore,
+        wait: config.waitChecks ?? DEFAULT_OPTIONS.checks.wait,
+        block: config.blockingChecks ?? DEFAULT_OPTIONS.checks.block,
+      },
+      // A suite that never creates runs must not use up the check timeout
+      startingSuiteWindowMs: Math.min(
+        config.startingSuiteWindowMs ?? DEFAULT_OPTIONS.startingSuiteWindowMs,
+        checkTimeoutMs / 2
+      ),
+    },
+    filter: {
+      updateTypes: config.updateTypes ?? [],
+      labels: config.labels ?? [],
+      packages: config.packages ?? [],
+      excludePackages: config.excludePackages ?? [],
+    },
+  };
+}
@@ -44,6 +44,29 @@ export function formatDuration(ms: number): string {
   return `${seconds}s`;
 }
 
+/**
+ * Parse a human-readable duration ("90s", "10m", "1h", "1500ms") into ms
+ * Plain numbers are interpreted as seconds. Returns null if invalid.
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/i);
+  if (!match) {
+    return null;
+  }
+
+  const amount = Number(match[1]);
+  switch ((match[2] ?? 's').toLowerCase()) {
+    case 'ms':
+      return Math.round(amount);
+    case 'm':
+      return Math.round(amount * 60 * 1000);
+    case 'h':
+      return Math.round(amount * 60 * 60 * 1000);
+    default:
+      return Math.round(amount * 1000);
+  }
+}
+
 /**
  * Poll a function until a condition is met
  */
@@ -3,7 +3,7 @@
  */
 
 import { sleep } from './poller.js';
-import { GhRenovateError, RateLimitError, isRecoverableError } from '../errors/types.js';
+import { GhRenovateError, RateLimitError, getHttpStatus, isRecoverableError } from '../errors/types.js';
 
 export interface RetryOptions {
   /** Maximum number of retry attempts */
@@ -51,12 +51,10 @@ export function isTransientError(error: unknown): boolean {
   }
 
   // HTTP errors that are typically transient
-  if (error && typeof error === 'object' && 'status' in error) {
-    const status = (error as { status: number }).status;
-    // 5xx server errors, 429 rate limit
-    if (status >= 500 || status === 429) {
-      return true;
-    }
+  // 5xx server errors, 429 rate limit
+  const status = getHttpStatus(error);
+  if (status !== undefined && (status >= 500 || status === 429)) {
+    return true;
   }
 
   return false;
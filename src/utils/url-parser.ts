@@ -1,23 +1,44 @@
 /**
  * GitHub URL parsing utilities
+ * Supports github.com and GitHub Enterprise Server hosts
  */
 
 import { ValidationError, ErrorCode } from '../errors/types.js';
 
+export const DEFAULT_HOST = 'github.com';
+
 export interface RepoInfo {
   owner: string;
   repo: string;
+  /** Host the URL pointed at, if it contained one (e.g. github.com, ghe.corp) */
+  host?: string;
 }
 
 const GITHUB_URL_PATTERNS = [
-  // HTTPS with optional subpaths: https://github.com/owner/repo, https://github.com/owner/repo/pulls, https://github.com/owner/repo/pull/123
-  /^https?:\/\/github\.com\/([^/]+)\/([^/]+?)(?:\.git|\/.*)?$/,
-  // SSH: git@github.com:owner/repo.git
-  /^git@github\.com:([^/]+)\/([^/]+?)(\.git)?$/,
-  // Simple: owner/repo
-  /^([^/]+)\/([^/]+)$/,
+  // HTTPS with optional subpaths: https://<host>/owner/repo, https://<host>/owner/repo/pulls, https://<host>/owner/repo/pull/123
+  /^https?:\/\/([^/]+)\/([^/]+)\/([^/]+?)(?:\.git|\/.*)?$/,
+  // SSH: git@<host>:owner/repo.git
+  /^git@([^:/]+):([^/]+)\/([^/]+?)(\.git)?$/,
+  // SSH URL: ssh://git@<host>[:port]/owner/repo.git
+  /^ssh:\/\/git@([^/:]+)(?::\d+)?\/([^/]+)\/([^/]+?)(\.git)?$/,
+  // Host without scheme: <host>/owner/repo (host must contain a dot)
+  /^([^/\s]+\.[^/\s]+)\/([^/]+)\/([^/]+?)(\.git)?$/,
 ];
 
+// Simple: owner/repo (no host)
+const SHORT_REPO_PATTERN = /^([^/]+)\/([^/]+)$/;
+
+/**
+ * Normalize a host: strip scheme, trailing slashes and lowercase it
+ */
+export function normalizeHost(host: string): string {
+  return host
+    .trim()
+    .replace(/^https?:\/\//, '')
+    .replace(/\/+$/, '')
+    .toLowerCase();
+}
+
 /**
  * Parse a GitHub repository URL into owner and repo
  */
@@ -28,28 +49,83 @@ export function parseRepoUrl(url: string): RepoInfo {
     const match = trimmed.match(pattern);
     if (match) {
       return {
-        owner: match[1],
-        repo: match[2].replace(/\.git$/, ''),
+        owner: match[2],
+        repo: match[3].replace(/\.git$/, ''),
+        host: normalizeHost(match[1]),
       };
     }
   }
 
+  const match = trimmed.match(SHORT_REPO_PATTERN);
+  if (match) {
+    return {
+      owner: match[1],
+      repo: match[2].replace(/\.git$/, ''),
+    };
+  }
+
   throw new ValidationError(
     ErrorCode.INVALID_REPO_URL,
-    `Invalid GitHub repository URL: "${url}". Expected format: https://github.com/owner/repo or owner/repo`
+    `Invalid GitHub repository URL: "${url}". Expected format: https://github.com/owner/repo, https://<enterprise-host>/owner/repo or owner/repo`
   );
 }
 
+/**
+ * Determine the GitHub host for a run
+ * Precedence: hosts found in repository URLs, then --host, then GH_HOST, then the default
+ * host (e.g. from the gh CLI config), then github.com
+ */
+export function resolveHost(repoUrls: string[], hostFlag?: string, defaultHost?: string): string {
+  const urlHosts = new Set<string>();
+  for (const url of repoUrls) {
+    const { host } = parseRepoUrl(url);
+    if (host) {
+      urlHosts.add(host);
+    }
+  }
+
+  if (urlHosts.size > 1) {
+    throw new ValidationError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Repositories on different hosts cannot be combined in one run: ${[...urlHosts].join(', ')}`
+    );
+  }
+
+  const candidates = [
+    ...urlHosts,
+    hostFlag,
+    process.env.GH_HOST,
+    defaultHost,
+  ];
+
+  const host = candidates.find((h): h is string => !!h && h.trim().length > 0);
+  return host ? normalizeHost(host) : DEFAULT_HOST;
+}
+
+/**
+ * Check if a host is github.com (as opposed to an Enterprise Server)
+ */
+export function isDotCom(host: string): boolean {
+  return normalizeHost(host) === DEFAULT_HOST;
+}
+
+/**
+ * Get the REST API base URL for a host
+ */
+export function getApiBaseUrl(host: string = DEFAULT_HOST): string {
+  return isDotCom(host) ? 'https://api.github.com' : `https://${normalizeHost(host)}/api/v3`;
+}
+
 /**
  * Build a GitHub URL from owner and repo
  */
-export function buildRepoUrl(owner: string, repo: string): string {
-  return `https://github.com/${owner}/${repo}`;
+export function buildRepoUrl(owner: string, repo: string, host: string = DEFAULT_HOST): string {
+  return `https://${normalizeHost(host)}/${owner}/${repo}`;
 }
 
 /**
  * Build a PR URL
  */
-export function buildPRUrl(owner: string, repo: string, prNumber: number): string {
-  return `https://github.com/${owner}/${repo}/pull/${prNumber}`;
+export function buildPRUrl(owner: string, repo: string, prNumber: number, host: string = DEFAULT_HOST): string {
+  return `${buildRepoUrl(owner, repo, host)}/pull/${prNumber}`;
 }